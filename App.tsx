@@ -1,9 +1,78 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Environment, Stars, Sparkles, ContactShadows } from '@react-three/drei';
-import { Move, CubeTheme } from './types';
-import { DEFAULT_THEME, DEFAULT_CUBE_SIZE, PRESET_THEMES } from './constants';
+import { Move, CubeFinish, CubeTheme, SolveRecord, Penalty, ThemeColor, TimerSession } from './types';
+import { DEFAULT_THEME, DEFAULT_CUBE_SIZE, MIN_CUBE_SIZE, MAX_CUBE_SIZE, PRESET_THEMES, BEVEL_RANGE, STICKER_SIZE_RANGE } from './constants';
 import RubiksCube from './components/RubiksCube';
+import {
+  CubeState,
+  Dims,
+  Shape,
+  createSolvedState,
+  applyMove,
+  applyMoves,
+  invertMoves,
+  isCuboid,
+  isSolved,
+  isSupercube,
+  normalizeShape,
+  shapeName,
+  shapeToText,
+  stateShape,
+  statesEqual,
+  toDims,
+} from './lib/cubeState';
+import { NotationError, NotationToken, tokenizeAlgorithm } from './lib/notation';
+import { Scramble, generateScramble } from './lib/scramble';
+import { simplifyMoves } from './lib/simplify';
+import { HINT_PREVIEW_LENGTH, Hint, createHint } from './lib/hint';
+import { CubeSession, loadSession, saveSession } from './lib/session';
+import { SharedCube, createShareLink } from './lib/shareLink';
+import { appendSolveRecord, loadSolveRecords } from './lib/solveRecords';
+import {
+  STICKER_FINISHES,
+  THEME_KEYS,
+  THEME_KEY_LABELS,
+  loadCustomThemes,
+  parseThemeJson,
+  saveCustomThemes,
+  themeFinish,
+  themeNameError,
+  themeToJson,
+} from './lib/themes';
+import {
+  COLOR_DEFICIENCIES,
+  ColorDeficiency,
+  DEFICIENCY_DESCRIPTIONS,
+  DEFICIENCY_LABELS,
+  findColorCollisions,
+  loadFacePatterns,
+  saveFacePatterns,
+  simulateTheme,
+} from './lib/colorVision';
+import { MAX_PROMPT_LENGTH, generateTheme, getThemeProvider } from './services/themeGenerator';
+import {
+  INSPECTION_MS,
+  createTimedSolve,
+  createTimerSession,
+  formatSolve,
+  formatTime,
+  inspectionPenalty,
+  loadTimerSessions,
+  saveTimerSessions,
+  sessionStats,
+} from './lib/timer';
+import {
+  KEY_ACTIONS,
+  KEY_MAP_PRESETS,
+  KeyboardSettings,
+  keyLabel,
+  keyTurn,
+  loadKeyboardSettings,
+  matchingPreset,
+  saveKeyboardSettings,
+} from './lib/keyMap';
+import { MAX_SOLVER_SIZE, hasExactDistance, hasSolver, solveCube } from './lib/solver';
 import { 
   Palette, 
   Shuffle, 
@@ -13,8 +82,35 @@ import {
   Gauge,
   Grid3x3,
   Lightbulb,
+  Trophy,
+  Loader2,
+  ScrollText,
+  Play,
+  Pause,
+  StepBack,
+  StepForward,
+  Timer,
+  Plus,
+  Trash2,
+  X,
+  Undo2,
+  Redo2,
+  Link2,
+  Keyboard,
+  Save,
+  Download,
+  Upload,
+  Wand2,
+  TriangleAlert,
 } from 'lucide-react';
 
+// One undo step. Steps made by the algorithm player remember which tokens
+// they moved between, so undo and redo can move the player too.
+interface UndoStep {
+  moves: Move[];
+  player?: { tokens: NotationToken[]; from: number; to: number };
+}
+
 // Reusable Styled Control Button with Tooltip
 const ControlButton = ({ 
   onClick, 
@@ -54,13 +150,62 @@ const ControlButton = ({
   </button>
 );
 
-function App() {
-  const [theme, setTheme] = useState<CubeTheme>(DEFAULT_THEME);
-  const [activeThemeName, setActiveThemeName] = useState<string>('Classic');
-  const [cubeSize, setCubeSize] = useState<number>(DEFAULT_CUBE_SIZE);
+// The session saved by the previous visit, if it is usable at the current size limits
+const restoreSession = (): CubeSession | null => {
+  const session = loadSession();
+  if (!session || toDims(stateShape(session.state)).some(n => n < MIN_CUBE_SIZE || n > MAX_CUBE_SIZE)) return null;
+  return session;
+};
+
+interface AppProps {
+  // Cube opened from a shared link, which takes precedence over the saved session
+  sharedCube?: SharedCube | null;
+  shareLinkError?: string | null;
+}
+
+function App({ sharedCube = null, shareLinkError = null }: AppProps) {
+  const [restored] = useState(restoreSession);
+  // A saved preset name wins over the saved colours so preset tweaks carry over
+  const restoredPreset = restored?.themeName ? PRESET_THEMES[restored.themeName] : undefined;
+  const [theme, setTheme] = useState<CubeTheme>(sharedCube?.theme ?? restoredPreset ?? restored?.theme ?? DEFAULT_THEME);
+  const [customThemes, setCustomThemes] = useState<Record<string, CubeTheme>>(loadCustomThemes);
+  const [activeThemeName, setActiveThemeName] = useState<string>(() => {
+    if (sharedCube?.theme) return sharedCube.themeName ?? '';
+    if (!restored) return 'Classic';
+    return restored.themeName && (restoredPreset || customThemes[restored.themeName]) ? restored.themeName : '';
+  });
+  // Theme editor: the name the edited colours are saved under
+  const [themeDraftName, setThemeDraftName] = useState(() => (customThemes[activeThemeName] ? activeThemeName : ''));
+  const [themeError, setThemeError] = useState<string | null>(null);
+  const [themeProvider] = useState(getThemeProvider);
+  const [themePrompt, setThemePrompt] = useState('');
+  const [isGeneratingTheme, setIsGeneratingTheme] = useState(false);
+  // Accessibility: glyphs on the stickers, and how the theme looks with a
+  // colour vision deficiency while the theme panel is open
+  const [facePatterns, setFacePatterns] = useState(loadFacePatterns);
+  const [previewDeficiency, setPreviewDeficiency] = useState<ColorDeficiency | null>(null);
+  const [cubeShape, setCubeShape] = useState<Shape>(() => {
+    const initial = sharedCube?.state ?? restored?.state;
+    return initial ? stateShape(initial) : DEFAULT_CUBE_SIZE;
+  });
+  // Whether the size panel edits one size or three dimensions
+  const [isCuboidMode, setIsCuboidMode] = useState(() => isCuboid(cubeShape));
+  const [cubeState, setCubeState] = useState<CubeState>(() => sharedCube?.state ?? restored?.state ?? createSolvedState(DEFAULT_CUBE_SIZE));
   const [moveQueue, setMoveQueue] = useState<Move[]>([]);
-  const [history, setHistory] = useState<Move[]>([]);
+  const [history, setHistory] = useState<Move[]>(sharedCube ? sharedCube.scramble?.moves ?? [] : restored?.history ?? []);
+  // Undo and redo work on whole steps (a turn, a player token, a scramble or
+  // a solve) and are kept apart from `history`, which is kept simplified
+  const [undoStack, setUndoStack] = useState<UndoStep[]>(sharedCube?.scramble ? [{ moves: sharedCube.scramble.moves }] : []);
+  const [redoStack, setRedoStack] = useState<UndoStep[]>([]);
   const [isShaking, setIsShaking] = useState(false);
+  const [isSolving, setIsSolving] = useState(false);
+  const [isScrambling, setIsScrambling] = useState(false);
+  const [scramble, setScramble] = useState<Scramble | null>(sharedCube?.scramble ?? null);
+  // A seed typed in to regenerate a scramble someone else got
+  const [seedText, setSeedText] = useState('');
+  // Bumped to remount the renderer when the state is replaced outright
+  const [cubeEpoch, setCubeEpoch] = useState(0);
+  const isSupercubeMode = isSupercube(cubeState);
   
   // Camera & Interaction State
   const [isInteracting, setIsInteracting] = useState(false);
@@ -69,13 +214,92 @@ function App() {
   // UI Panel States
   const [showThemeSelector, setShowThemeSelector] = useState(false);
   const [showSizeSelector, setShowSizeSelector] = useState(false);
+  const [showAlgorithmPanel, setShowAlgorithmPanel] = useState(!!sharedCube?.moves);
+  const [showTimerPanel, setShowTimerPanel] = useState(false);
+  const [showKeyPanel, setShowKeyPanel] = useState(false);
   
   const [shakeHint, setShakeHint] = useState(false);
   const [hintMessage, setHintMessage] = useState<string | null>(null);
   const [activeHint, setActiveHint] = useState<Move | null>(null);
-  const [solveSpeed, setSolveSpeed] = useState(15);
+  // What the active hint is for, shown until the hinted turn is made
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [showHintPreview, setShowHintPreview] = useState(false);
+  const [isFindingHint, setIsFindingHint] = useState(false);
+  // Every change to the cube goes through history, so a hint solved for an
+  // older history is out of date
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const [autoOrbitHints, setAutoOrbitHints] = useState(false);
+  const [solveSpeed, setSolveSpeed] = useState(restored?.solveSpeed ?? 15);
+
+  // Solve tracking: the current attempt runs from the first turn after the
+  // cube was last solved until onSolved fires.
+  const [solveRecords, setSolveRecords] = useState<SolveRecord[]>(() => loadSolveRecords());
+  const [celebration, setCelebration] = useState<SolveRecord | null>(null);
+  const attemptRef = useRef({ startedAt: null as number | null, moves: 0, assisted: false });
+
+  // Algorithm player: the loaded tokens and how many of them are applied
+  const [algorithmText, setAlgorithmText] = useState(sharedCube?.moves ?? '');
+  const [algorithmTokens, setAlgorithmTokens] = useState<NotationToken[]>(() =>
+    sharedCube?.moves ? tokenizeAlgorithm(sharedCube.moves, stateShape(sharedCube.state)) : []
+  );
+  const [algorithmError, setAlgorithmError] = useState<NotationError | null>(null);
+  const [playerPosition, setPlayerPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  // Timer mode: inspection is started by hand, the first turn starts the
+  // clock and solved detection stops it
+  const [timerSessions, setTimerSessions] = useState<TimerSession[]>(() => loadTimerSessions());
+  const [activeSessionId, setActiveSessionId] = useState(() => timerSessions[timerSessions.length - 1].id);
+  const [newSessionName, setNewSessionName] = useState('');
+  const [timerPhase, setTimerPhase] = useState<'idle' | 'inspecting' | 'running'>('idle');
+  const [timerNow, setTimerNow] = useState(0);
+  // undoFloor is the undo stack depth when the clock started; a timed solve
+  // can only undo its own turns
+  const timerRef = useRef({ inspectionStartedAt: 0, startedAt: 0, penalty: 'none' as Penalty, undoFloor: 0 });
 
-  const isBusy = isShaking || moveQueue.length > 0;
+  // Keyboard turning: the key map and the turn waiting for a key to be
+  // pressed in the settings
+  const [keyboardSettings, setKeyboardSettings] = useState<KeyboardSettings>(() => loadKeyboardSettings());
+  const [capturingAction, setCapturingAction] = useState<string | null>(null);
+
+  const activeSession = timerSessions.find(session => session.id === activeSessionId) ?? timerSessions[0];
+  const isTiming = timerPhase !== 'idle';
+
+  const isBusy = isShaking || isSolving || isFindingHint || isScrambling || isPlaying || isTiming || moveQueue.length > 0;
+  const canSolve = !isSolved(cubeState) && (hasSolver(cubeShape, isSupercubeMode) || history.length > 0);
+  // Undo stays available during a timed solve, it is just another turn, but
+  // it cannot reach back into the scramble
+  const canStep = !isShaking && !isSolving && !isScrambling && !isPlaying && moveQueue.length === 0 && timerPhase !== 'inspecting';
+  const canUndo = canStep && undoStack.length > (timerPhase === 'running' ? timerRef.current.undoFloor : 0);
+  const canRedo = canStep && redoStack.length > 0;
+
+  // Every sequence queued outside undo/redo becomes one undo step and
+  // invalidates anything that could be redone
+  const recordStep = (moves: Move[], player?: UndoStep['player']) => {
+    if (moves.length === 0) return;
+    setUndoStack(prev => [...prev, { moves, player }]);
+    setRedoStack([]);
+  };
+
+  useEffect(() => {
+    if (!shareLinkError) return;
+    setHintMessage(`Could not open the shared link: ${shareLinkError}`);
+    const timeout = setTimeout(() => setHintMessage(null), 5000);
+    return () => clearTimeout(timeout);
+  }, [shareLinkError]);
+
+  // Save the session whenever the cube settles, so state and history match
+  useEffect(() => {
+    if (moveQueue.length > 0) return;
+    saveSession({
+      state: cubeState,
+      themeName: PRESET_THEMES[activeThemeName] || customThemes[activeThemeName] ? activeThemeName : null,
+      theme,
+      solveSpeed,
+      history,
+    });
+  }, [cubeState, moveQueue.length, theme, activeThemeName, customThemes, solveSpeed, history]);
 
   useEffect(() => {
     let lastX = 0, lastY = 0, lastZ = 0;
@@ -114,90 +338,295 @@ function App() {
     }
   }, [isShaking, moveQueue]);
 
-  const handleShuffle = useCallback(() => {
-    if (moveQueue.length > 0) return;
-    setIsShaking(true);
+  const handleShuffle = useCallback((seed?: number) => {
+    if (moveQueue.length > 0 || isTiming || isScrambling) return;
     setActiveHint(null); // Clear hints on shuffle
-    
-    const newMoves: Move[] = [];
-    const shuffleCount = Math.max(25, cubeSize * 2);
-    
-    for (let i = 0; i < shuffleCount; i++) {
-      const axis = ['x', 'y', 'z'][Math.floor(Math.random() * 3)] as 'x'|'y'|'z';
-      const layer = Math.floor(Math.random() * cubeSize);
-      const direction = Math.random() > 0.5 ? 1 : -1;
-      newMoves.push({ axis, layer, direction });
-    }
-    
-    setMoveQueue(prev => [...prev, ...newMoves]);
-    setHistory(prev => [...prev, ...newMoves]);
-  }, [moveQueue, cubeSize]);
+    setIsScrambling(true);
+
+    generateScramble(cubeShape, seed)
+      .then(next => {
+        // Scrambles are written for a solved cube, so start from one
+        setCubeState(createSolvedState(cubeShape, isSupercubeMode));
+        setCubeEpoch(epoch => epoch + 1);
+        setIsShaking(true);
+        setMoveQueue(next.moves);
+        setHistory(next.moves);
+        // Earlier steps do not apply to the fresh cube
+        setUndoStack([{ moves: next.moves }]);
+        setRedoStack([]);
+        setScramble(next);
+        attemptRef.current = { startedAt: null, moves: 0, assisted: false };
+      })
+      .catch(err => {
+        console.error("Scramble Error:", err);
+        setHintMessage("Could not generate a scramble.");
+        setTimeout(() => setHintMessage(null), 3000);
+      })
+      .finally(() => setIsScrambling(false));
+  }, [moveQueue, cubeShape, isSupercubeMode, isTiming, isScrambling]);
+
+  const seedValue = /^\d{1,10}$/.test(seedText.trim()) && Number(seedText) < 4294967296 ? Number(seedText) : null;
 
   const handleSolve = useCallback(() => {
-    if (moveQueue.length > 0 || history.length === 0) return;
-    setIsShaking(true);
+    if (moveQueue.length > 0 || isSolving || !canSolve) return;
     setActiveHint(null);
-    
-    const solveMoves = [...history].reverse().map(m => ({
-      ...m,
-      direction: (m.direction * -1) as 1 | -1
-    }));
-    
+    attemptRef.current.assisted = true;
+
+    // Sizes with a real solver are solved from the current state in the
+    // worker; the rest fall back to undoing the recorded history.
+    if (hasSolver(cubeShape, isSupercubeMode)) {
+      setIsSolving(true);
+      solveCube(cubeState)
+        .then(({ moves }) => {
+          const solveMoves = simplifyMoves(moves);
+          setIsShaking(true);
+          setMoveQueue(solveMoves);
+          setHistory([]);
+          recordStep(solveMoves);
+        })
+        .catch(err => {
+          console.error("Solver Error:", err);
+          setHintMessage("The solver could not find a solution.");
+          setTimeout(() => setHintMessage(null), 3000);
+        })
+        .finally(() => setIsSolving(false));
+      return;
+    }
+
+    setIsShaking(true);
+    const solveMoves = simplifyMoves(invertMoves(history));
+
     setMoveQueue(solveMoves);
     setHistory([]); 
-  }, [history, moveQueue]);
+    recordStep(solveMoves);
+  }, [history, moveQueue, isSolving, canSolve, cubeShape, isSupercubeMode, cubeState]);
 
   const handleHint = useCallback(() => {
     if (isBusy) return;
     
-    if (history.length === 0) {
+    if (isSolved(cubeState)) {
       setHintMessage("Cube is perfectly solved!");
       setTimeout(() => setHintMessage(null), 2000);
       return;
     }
 
-    // Calculate the move needed to reverse the last step
-    const lastMove = history[history.length - 1];
-    const hintMove: Move = {
-      axis: lastMove.axis,
-      layer: lastMove.layer,
-      direction: (lastMove.direction * -1) as 1 | -1
-    };
+    if (!hasSolver(cubeShape, isSupercubeMode)) {
+      setHintMessage(isCuboid(cubeShape)
+        ? "Hints are not available for cuboids."
+        : isSupercubeMode
+          ? "Supercube hints are available up to 3x3."
+          : `Hints are available up to ${MAX_SOLVER_SIZE}x${MAX_SOLVER_SIZE}.`);
+      setTimeout(() => setHintMessage(null), 3000);
+      return;
+    }
+
+    // The hint is the next move of a solution from the current state, so it
+    // works however the cube got here
+    attemptRef.current.assisted = true;
+    setIsFindingHint(true);
+    const requestedFor = history;
+    solveCube(cubeState)
+      .then(({ moves, stage }) => {
+        if (historyRef.current !== requestedFor) return;
+        const next = createHint(cubeState, simplifyMoves(moves), hasExactDistance(cubeShape), stage);
+        if (!next) return;
+        setHint(next);
+        setShowHintPreview(false);
+        setActiveHint(next.move);
+      })
+      .catch(err => {
+        console.error("Solver Error:", err);
+        setHintMessage("The solver could not find a hint.");
+        setTimeout(() => setHintMessage(null), 3000);
+      })
+      .finally(() => setIsFindingHint(false));
+  }, [isBusy, cubeState, cubeShape, isSupercubeMode, history]);
+
+  const loadAlgorithm = () => {
+    if (isBusy) return;
+    try {
+      setAlgorithmTokens(tokenizeAlgorithm(algorithmText, cubeShape));
+      setAlgorithmError(null);
+    } catch (err) {
+      if (!(err instanceof NotationError)) throw err;
+      setAlgorithmTokens([]);
+      setAlgorithmError(err);
+    }
+    setPlayerPosition(0);
+  };
+
+  // Queues the moves that take the loaded algorithm from the current
+  // position to `target` tokens applied, forwards or backwards
+  const seekAlgorithm = useCallback((target: number) => {
+    if (moveQueue.length > 0 || isShaking || isSolving) return;
+    const moves = target >= playerPosition
+      ? algorithmTokens.slice(playerPosition, target).flatMap(t => t.moves)
+      : invertMoves(algorithmTokens.slice(target, playerPosition).flatMap(t => t.moves));
+
+    setPlayerPosition(target);
+    if (moves.length === 0) return;
+    setActiveHint(null);
+    setMoveQueue(moves);
+    setHistory(prev => simplifyMoves([...prev, ...moves]));
+    recordStep(moves, { tokens: algorithmTokens, from: playerPosition, to: target });
+  }, [moveQueue, isShaking, isSolving, playerPosition, algorithmTokens]);
+
+  // Playback steps one token at a time so the highlight follows the cube
+  useEffect(() => {
+    if (!isPlaying || moveQueue.length > 0) return;
+    if (playerPosition >= algorithmTokens.length) {
+      setIsPlaying(false);
+      return;
+    }
+    seekAlgorithm(playerPosition + 1);
+  }, [isPlaying, moveQueue.length, playerPosition, algorithmTokens, seekAlgorithm]);
+
+  const updateTimerSessions = (update: (sessions: TimerSession[]) => TimerSession[]) => {
+    setTimerSessions(prev => {
+      const next = update(prev);
+      saveTimerSessions(next);
+      return next;
+    });
+  };
+
+  const updateActiveSession = (update: (session: TimerSession) => TimerSession) => {
+    updateTimerSessions(sessions => sessions.map(session => session.id === activeSession.id ? update(session) : session));
+  };
+
+  const updateKeyboardSettings = (update: (settings: KeyboardSettings) => KeyboardSettings) => {
+    setKeyboardSettings(prev => {
+      const next = update(prev);
+      saveKeyboardSettings(next);
+      return next;
+    });
+  };
+
+  // A key drives one turn at a time, so binding it replaces its old turn
+  const bindKey = (code: string, action: string) => {
+    updateKeyboardSettings(settings => ({ ...settings, map: { ...settings.map, [code]: action } }));
+  };
+
+  const unbindKey = (code: string) => {
+    updateKeyboardSettings(settings => {
+      const { [code]: _, ...map } = settings.map;
+      return { ...settings, map };
+    });
+  };
+
+  const handleCreateSession = () => {
+    const session = createTimerSession(newSessionName.trim() || `Session ${timerSessions.length + 1}`);
+    updateTimerSessions(sessions => [...sessions, session]);
+    setActiveSessionId(session.id);
+    setNewSessionName('');
+  };
+
+  const handleDeleteSession = () => {
+    if (timerSessions.length < 2) return;
+    const remaining = timerSessions.filter(session => session.id !== activeSession.id);
+    updateTimerSessions(() => remaining);
+    setActiveSessionId(remaining[remaining.length - 1].id);
+  };
+
+  const setSolvePenalty = (id: string, penalty: Penalty) => {
+    updateActiveSession(session => ({
+      ...session,
+      solves: session.solves.map(solve => solve.id === id ? { ...solve, penalty } : solve),
+    }));
+  };
+
+  const deleteSolve = (id: string) => {
+    updateActiveSession(session => ({ ...session, solves: session.solves.filter(solve => solve.id !== id) }));
+  };
+
+  const canInspect = !isBusy && !isSolved(cubeState);
+
+  const startInspection = () => {
+    if (!canInspect) return;
+    timerRef.current.inspectionStartedAt = Date.now();
+    attemptRef.current = { startedAt: null, moves: 0, assisted: false };
+    setActiveHint(null);
+    setTimerNow(Date.now());
+    setTimerPhase('inspecting');
+  };
+
+  const cancelTimer = () => setTimerPhase('idle');
+
+  useEffect(() => {
+    if (!isTiming) return;
+    const interval = setInterval(() => setTimerNow(Date.now()), 31);
+    return () => clearInterval(interval);
+  }, [isTiming]);
 
-    setActiveHint(hintMove);
-    setHintMessage("Follow the arrows to reverse the last move.");
-    // Auto-clear message but keep visual hint until move is made
-    setTimeout(() => setHintMessage(null), 3000);
-  }, [history, isBusy]);
+  // A turn made by hand, from touch or the keyboard: starts the timer and
+  // the attempt, resolves the hint and is queued behind earlier turns
+  const turnByHand = (moves: Move[]) => {
+    if (moves.length === 0) return;
+
+    if (timerPhase === 'inspecting') {
+      const now = Date.now();
+      timerRef.current.startedAt = now;
+      timerRef.current.penalty = inspectionPenalty(now - timerRef.current.inspectionStartedAt);
+      timerRef.current.undoFloor = undoStack.length;
+      setTimerPhase('running');
+    }
+
+    const attempt = attemptRef.current;
+    if (attempt.startedAt === null) attempt.startedAt = Date.now();
+    attempt.moves++;
+    
+    // Any turn resolves the hint, right or wrong
+    setActiveHint(null);
+
+    // Appended so that turns made while earlier ones animate are kept
+    setMoveQueue(prev => [...prev, ...moves]);
+    setHistory(prev => simplifyMoves([...prev, ...moves]));
+    recordStep(moves);
+  };
 
   // Callback for direct touch interaction from RubiksCube component
   const handleDirectMove = (move: Move) => {
-    if (isShaking || moveQueue.length > 0) return;
-    
-    // If a hint is active, check if this move matches the hint
-    if (activeHint) {
-        // Simple validation: check if we moved the right layer/axis
-        // If successful, clear the hint
-        if (move.axis === activeHint.axis && move.layer === activeHint.layer) {
-           setActiveHint(null);
-           
-           // If direction matches, pop from history (undo)
-           if (move.direction === activeHint.direction) {
-             setHistory(prev => prev.slice(0, -1));
-             setMoveQueue([move]);
-             return;
-           }
-        } else {
-            // Moved wrong part? Just keep going, user overrides hint
-            setActiveHint(null);
-        }
-    }
+    if (isShaking || isSolving || moveQueue.length > 0) return;
+    turnByHand([move]);
+  };
+
+  // Keyboard turns queue up behind the ones still animating, so fast typing
+  // is not lost
+  const handleKeyTurn = (moves: Move[]) => {
+    if (isShaking || isSolving || isScrambling || isPlaying) return;
+    turnByHand(moves);
+  };
+
+  // Outside a timed solve undo and redo can step back through a scramble or
+  // replay a solution, so a solve they finish is not the user's own
+  const replayStep = (moves: Move[]) => {
+    if (timerPhase !== 'running') attemptRef.current.assisted = true;
+    setActiveHint(null);
+    setMoveQueue(moves);
+    setHistory(prev => simplifyMoves([...prev, ...moves]));
+    if (attemptRef.current.startedAt !== null) attemptRef.current.moves += moves.length;
+  };
 
-    setMoveQueue([move]);
-    setHistory(prev => [...prev, move]);
+  const handleUndo = () => {
+    if (!canUndo) return;
+    const step = undoStack[undoStack.length - 1];
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, step]);
+    replayStep(invertMoves(step.moves));
+    // Player steps take the player back with them, while it holds the same algorithm
+    if (step.player?.tokens === algorithmTokens) setPlayerPosition(step.player.from);
   };
 
-  const onMoveComplete = () => {
+  const handleRedo = () => {
+    if (!canRedo) return;
+    const step = redoStack[redoStack.length - 1];
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, step]);
+    replayStep(step.moves);
+    if (step.player?.tokens === algorithmTokens) setPlayerPosition(step.player.to);
+  };
+
+  const onMoveComplete = (move: Move) => {
+    setCubeState(prev => applyMove(prev, move));
     setMoveQueue(prev => {
       const next = prev.slice(1);
       if (next.length === 0) {
@@ -207,18 +636,153 @@ function App() {
     });
   };
 
-  const handleSizeChange = (newSize: number) => {
+  const handleSolved = () => {
+    const attempt = attemptRef.current;
+    const record: SolveRecord = {
+      size: Math.max(...toDims(cubeShape)),
+      ...(isCuboid(cubeShape) && { dims: toDims(cubeShape) }),
+      moves: attempt.moves,
+      durationMs: attempt.startedAt === null ? null : Date.now() - attempt.startedAt,
+      assisted: attempt.assisted,
+      solvedAt: Date.now(),
+    };
+    attemptRef.current = { startedAt: null, moves: 0, assisted: false };
+
+    if (timerPhase === 'running') {
+      const { startedAt, penalty } = timerRef.current;
+      const solve = createTimedSolve(cubeShape, Date.now() - startedAt, penalty);
+      updateActiveSession(session => ({ ...session, solves: [...session.solves, solve] }));
+      setTimerPhase('idle');
+    }
+
+    // A solved cube has nothing left to reverse, however it got there
+    setHistory([]);
+    setActiveHint(null);
+    setSolveRecords(appendSolveRecord(record));
+    setCelebration(record);
+    setTimeout(() => setCelebration(null), 5000);
+  };
+
+  const handleShapeChange = (newShape: Shape, supercube = isSupercubeMode) => {
     if (isBusy) return;
-    setCubeSize(newSize);
+    setCubeShape(normalizeShape(newShape));
+    setCubeState(createSolvedState(newShape, supercube));
+    setScramble(null);
     setHistory([]);
+    setUndoStack([]);
+    setRedoStack([]);
     setMoveQueue([]);
     setActiveHint(null);
+    // Tokens were resolved against the old shape
+    setAlgorithmTokens([]);
+    setAlgorithmError(null);
+    setPlayerPosition(0);
+    attemptRef.current = { startedAt: null, moves: 0, assisted: false };
+  };
+
+  const handleShare = () => {
+    // The scramble only describes the cube while nothing else was turned
+    const scrambleApplies = !!scramble && statesEqual(cubeState, applyMoves(createSolvedState(cubeShape, isSupercubeMode), scramble.moves));
+    const link = createShareLink(`${window.location.origin}${window.location.pathname}`, {
+      state: cubeState,
+      themeName: PRESET_THEMES[activeThemeName] ? activeThemeName : null,
+      theme,
+      scramble: scrambleApplies ? scramble : null,
+      moves: algorithmTokens.length > 0 ? algorithmText : null,
+    });
+    navigator.clipboard.writeText(link)
+      .then(() => setHintMessage("Link copied to the clipboard."))
+      .catch(() => setHintMessage("Could not copy the link."))
+      .finally(() => setTimeout(() => setHintMessage(null), 3000));
   };
 
   const applyTheme = (name: string) => {
-    setTheme(PRESET_THEMES[name]);
+    setTheme(PRESET_THEMES[name] ?? customThemes[name]);
     setActiveThemeName(name);
-    setShowThemeSelector(false);
+    setThemeDraftName(customThemes[name] ? name : '');
+    setThemeError(null);
+  };
+
+  // Edits preview live on the cube; the theme only keeps a name once saved
+  const handleThemeColorChange = (key: ThemeColor, color: string) => {
+    setTheme(prev => ({ ...prev, [key]: color }));
+    setActiveThemeName('');
+    setThemeError(null);
+  };
+
+  const handleFinishChange = (change: Partial<CubeFinish>) => {
+    setTheme(prev => ({ ...prev, finish: { ...themeFinish(prev), ...change } }));
+    setActiveThemeName('');
+    setThemeError(null);
+  };
+
+  const updateCustomThemes = (next: Record<string, CubeTheme>) => {
+    setCustomThemes(next);
+    saveCustomThemes(next);
+  };
+
+  const handleSaveTheme = () => {
+    const error = themeNameError(themeDraftName);
+    if (error) {
+      setThemeError(error);
+      return;
+    }
+    const name = themeDraftName.trim();
+    updateCustomThemes({ ...customThemes, [name]: theme });
+    setActiveThemeName(name);
+    setThemeDraftName(name);
+    setThemeError(null);
+  };
+
+  const handleDeleteTheme = (name: string) => {
+    const { [name]: _, ...rest } = customThemes;
+    updateCustomThemes(rest);
+    if (activeThemeName === name) setActiveThemeName('');
+    if (themeDraftName === name) setThemeDraftName('');
+  };
+
+  const handleExportTheme = () => {
+    const url = URL.createObjectURL(new Blob([themeToJson(theme)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(activeThemeName || themeDraftName.trim() || 'theme').replace(/[^\w -]+/g, '')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleGenerateTheme = () => {
+    if (isGeneratingTheme) return;
+    setIsGeneratingTheme(true);
+    setThemeError(null);
+    generateTheme(themePrompt, themeProvider)
+      .then(generated => {
+        // Generators only pick colours, so the finish stays as it was
+        setTheme(prev => ({ ...generated, ...(prev.finish && { finish: prev.finish }) }));
+        setActiveThemeName('');
+        setThemeDraftName(themePrompt.trim().slice(0, 32));
+      })
+      .catch(err => setThemeError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setIsGeneratingTheme(false));
+  };
+
+  const handleFacePatternsChange = (enabled: boolean) => {
+    setFacePatterns(enabled);
+    saveFacePatterns(enabled);
+  };
+
+  const colorCollisions = useMemo(() => findColorCollisions(theme), [theme]);
+  const displayTheme = showThemeSelector && previewDeficiency ? simulateTheme(theme, previewDeficiency) : theme;
+
+  const handleImportTheme = (file: File) => {
+    file.text()
+      .then(text => {
+        setTheme(parseThemeJson(text));
+        setActiveThemeName('');
+        const name = file.name.replace(/\.json$/i, '');
+        setThemeDraftName(PRESET_THEMES[name] ? '' : name);
+        setThemeError(null);
+      })
+      .catch(err => setThemeError(`Could not import ${file.name}: ${err instanceof Error ? err.message : err}`));
   };
 
   const requestMotionPermission = async () => {
@@ -238,21 +802,49 @@ function App() {
     }
   };
 
-  const togglePanel = (panel: 'theme' | 'size') => {
+  const togglePanel = (panel: 'theme' | 'size' | 'algorithm' | 'timer' | 'keys') => {
     if (isBusy) return;
     
-    if (panel === 'theme') {
-      setShowThemeSelector(!showThemeSelector);
-      setShowSizeSelector(false);
-    } else if (panel === 'size') {
-      setShowSizeSelector(!showSizeSelector);
-      setShowThemeSelector(false);
-    }
+    setCapturingAction(null);
+    setShowThemeSelector(panel === 'theme' && !showThemeSelector);
+    setShowSizeSelector(panel === 'size' && !showSizeSelector);
+    setShowAlgorithmPanel(panel === 'algorithm' && !showAlgorithmPanel);
+    setShowTimerPanel(panel === 'timer' && !showTimerPanel);
+    setShowKeyPanel(panel === 'keys' && !showKeyPanel);
   };
 
   // Keyboard Shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Typing an algorithm must not trigger shortcuts
+      if (e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLInputElement) return;
+      if (capturingAction) {
+        e.preventDefault();
+        if (e.key !== 'Escape') bindKey(e.code, capturingAction);
+        setCapturingAction(null);
+        return;
+      }
+      if (isTiming && e.key === 'Escape') {
+        cancelTimer();
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) handleRedo();
+        else handleUndo();
+        return;
+      }
+      if (e.ctrlKey || e.metaKey) return;
+
+      // Bound keys turn the cube and take precedence over the shortcuts below
+      if (keyboardSettings.enabled) {
+        const moves = keyTurn(keyboardSettings.map, e.code, cubeShape, { wide: e.shiftKey, slice: e.altKey });
+        if (moves) {
+          e.preventDefault();
+          if (!e.repeat) handleKeyTurn(moves);
+          return;
+        }
+      }
       if (isBusy) return;
 
       switch(e.key.toLowerCase()) {
@@ -272,9 +864,27 @@ function App() {
         case 't':
           togglePanel('theme');
           break;
+        case 'a':
+          togglePanel('algorithm');
+          break;
+        case 'i':
+          togglePanel('timer');
+          break;
+        case 'k':
+          togglePanel('keys');
+          break;
+        case ' ':
+          if (showTimerPanel) {
+            e.preventDefault();
+            startInspection();
+          }
+          break;
         case 'escape':
           setShowSizeSelector(false);
           setShowThemeSelector(false);
+          setShowAlgorithmPanel(false);
+          setShowTimerPanel(false);
+          setShowKeyPanel(false);
           setActiveHint(null);
           break;
       }
@@ -282,7 +892,7 @@ function App() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isBusy, handleShuffle, handleSolve, handleHint]);
+  }, [isBusy, isTiming, showTimerPanel, canInspect, capturingAction, keyboardSettings, cubeShape, handleShuffle, handleSolve, handleHint, handleUndo, handleRedo, handleKeyTurn]);
 
 
   return (
@@ -317,21 +927,32 @@ function App() {
           />
           <pointLight position={[-10, -10, -10]} intensity={2.0} color={theme.U} />
           
-          <Stars radius={100} depth={50} count={3000} factor={4} saturation={0} fade speed={0.5} />
+          <Stars radius={100} depth={50} count={3000} factor={4} saturation={0} fade speed={celebration ? 3 : 0.5} />
           <Sparkles count={40} scale={14} size={3} speed={0.4} opacity={0.2} color={theme.U} />
+          {celebration && (
+            <>
+              <Sparkles count={120} scale={18} size={8} speed={1.5} opacity={0.9} color={theme.F} />
+              <Sparkles count={120} scale={18} size={8} speed={1.5} opacity={0.9} color={theme.R} />
+              <Sparkles count={120} scale={18} size={8} speed={1.5} opacity={0.9} color={theme.D} />
+            </>
+          )}
           
           <RubiksCube 
-            key={cubeSize} 
-            size={cubeSize}
-            theme={theme} 
+            key={`${shapeToText(cubeShape)}${isSupercubeMode ? '-super' : ''}-${cubeEpoch}`}
+            shape={cubeShape}
+            state={cubeState}
+            theme={displayTheme} 
             moveQueue={moveQueue} 
             onMoveComplete={onMoveComplete}
             onManualMove={handleDirectMove}
+            onSolved={handleSolved}
             onInteractionChange={setIsInteracting}
             setOrbitEnabled={setIsOrbitEnabled}
             isShaking={isShaking}
             speed={solveSpeed}
             activeHint={activeHint}
+            autoOrbit={autoOrbitHints}
+            facePatterns={facePatterns}
           />
           
           <ContactShadows position={[0, -6, 0]} opacity={0.5} scale={30} blur={2} far={6} />
@@ -348,19 +969,42 @@ function App() {
               HYPER<span className="text-indigo-500">CUBE</span>
             </h1>
             <p className="text-indigo-400/80 text-[10px] sm:text-xs tracking-[0.2em] font-bold mt-1 uppercase">
-              {cubeSize}x{cubeSize} Edition
+              {shapeName(cubeShape)} Edition
             </p>
           </div>
+
+          {scramble && (
+            <div className="flex-1 mx-4 sm:mx-8 max-w-2xl text-center">
+              <div className="text-white/80 font-mono text-xs sm:text-sm leading-relaxed break-words">
+                {scramble.text}
+              </div>
+              <div className="text-white/30 text-[10px] font-mono uppercase tracking-widest mt-1">
+                Scramble &middot; seed {scramble.seed}
+              </div>
+            </div>
+          )}
           
-          <button 
-            onClick={requestMotionPermission}
-            className="bg-white/5 backdrop-blur-md border border-white/10 p-3 rounded-full text-white hover:bg-white/10 hover:scale-110 transition duration-300 group relative"
-          >
-            <Smartphone size={20} />
-             <div className="absolute right-0 top-full mt-3 hidden group-hover:block bg-gray-900 text-white text-xs px-2 py-1 rounded whitespace-nowrap border border-white/10 z-50">
-               Enable Motion
-             </div>
-          </button>
+          <div className="flex gap-2">
+            <button 
+              onClick={handleShare}
+              className="bg-white/5 backdrop-blur-md border border-white/10 p-3 rounded-full text-white hover:bg-white/10 hover:scale-110 transition duration-300 group relative"
+            >
+              <Link2 size={20} />
+               <div className="absolute right-0 top-full mt-3 hidden group-hover:block bg-gray-900 text-white text-xs px-2 py-1 rounded whitespace-nowrap border border-white/10 z-50">
+                 Copy Share Link
+               </div>
+            </button>
+
+            <button 
+              onClick={requestMotionPermission}
+              className="bg-white/5 backdrop-blur-md border border-white/10 p-3 rounded-full text-white hover:bg-white/10 hover:scale-110 transition duration-300 group relative"
+            >
+              <Smartphone size={20} />
+               <div className="absolute right-0 top-full mt-3 hidden group-hover:block bg-gray-900 text-white text-xs px-2 py-1 rounded whitespace-nowrap border border-white/10 z-50">
+                 Enable Motion
+               </div>
+            </button>
+          </div>
         </div>
 
         {shakeHint && (
@@ -369,6 +1013,37 @@ function App() {
            </div>
         )}
 
+        {hint && activeHint && !hintMessage && (
+           <div className="absolute top-32 left-1/2 -translate-x-1/2 w-full max-w-md px-4 flex justify-center">
+             <div className="bg-amber-500/90 backdrop-blur-md text-white px-5 py-3 rounded-2xl shadow-2xl flex items-start gap-3 border border-white/20 text-sm pointer-events-auto">
+               <Lightbulb size={20} className="fill-white text-white shrink-0 mt-0.5" />
+               <div className="flex flex-col gap-1">
+                 <span className="font-bold">Turn <span className="font-mono">{hint.notation}</span></span>
+                 <span className="text-white/90">{hint.explanation}</span>
+                 {showHintPreview ? (
+                   <span className="font-mono text-white/90">Next: {hint.preview}</span>
+                 ) : (
+                   <button
+                     onClick={() => setShowHintPreview(true)}
+                     className="self-start text-xs font-bold uppercase tracking-wider underline underline-offset-2 hover:text-white/80"
+                   >
+                     Show next {HINT_PREVIEW_LENGTH} turns
+                   </button>
+                 )}
+                 <label className="flex items-center gap-2 text-xs text-white/90 cursor-pointer">
+                   <input
+                     type="checkbox"
+                     checked={autoOrbitHints}
+                     onChange={(e) => setAutoOrbitHints(e.target.checked)}
+                     className="accent-white"
+                   />
+                   Turn the camera to hinted layers
+                 </label>
+               </div>
+             </div>
+           </div>
+        )}
+
         {hintMessage && (
            <div className="absolute top-32 left-1/2 -translate-x-1/2 w-full max-w-md px-4 flex justify-center">
              <div className="bg-amber-500/90 backdrop-blur-md text-white px-6 py-3 rounded-full font-bold shadow-2xl animate-bounce flex items-center gap-3 border border-white/20 text-sm sm:text-base">
@@ -378,17 +1053,56 @@ function App() {
            </div>
         )}
 
+        {showTimerPanel && (
+           <div className="absolute top-28 left-1/2 -translate-x-1/2 flex flex-col items-center gap-1 pointer-events-none">
+             {timerPhase === 'inspecting' ? (() => {
+               const elapsed = timerNow - timerRef.current.inspectionStartedAt;
+               const penalty = inspectionPenalty(elapsed);
+               return (
+                 <div className={`text-6xl font-black font-mono tabular-nums drop-shadow-2xl ${penalty === 'none' ? 'text-amber-300' : 'text-red-400'}`}>
+                   {penalty === 'none' ? Math.ceil((INSPECTION_MS - elapsed) / 1000) : penalty}
+                 </div>
+               );
+             })() : (
+               <div className="text-6xl font-black font-mono tabular-nums text-white drop-shadow-2xl">
+                 {timerPhase === 'running'
+                   ? formatTime(timerNow - timerRef.current.startedAt)
+                   : activeSession.solves.length > 0 ? formatSolve(activeSession.solves[activeSession.solves.length - 1]) : formatTime(0)}
+               </div>
+             )}
+             <div className="text-white/50 text-[10px] font-mono uppercase tracking-widest">
+               {timerPhase === 'inspecting' && 'Inspection: first turn starts the clock'}
+               {timerPhase === 'running' && 'Solving'}
+               {timerPhase === 'idle' && (isSolved(cubeState) ? 'Scramble, then press space to inspect' : 'Press space to inspect')}
+             </div>
+           </div>
+        )}
+
+        {celebration && (
+           <div className="absolute top-1/4 left-1/2 -translate-x-1/2 flex flex-col items-center gap-2 pointer-events-none animate-in zoom-in fade-in duration-500">
+             <Trophy size={48} className="text-amber-400 drop-shadow-2xl" />
+             <div className="text-5xl sm:text-6xl font-black tracking-tighter text-transparent bg-clip-text bg-gradient-to-br from-white via-amber-200 to-amber-500 drop-shadow-2xl">
+               SOLVED!
+             </div>
+             <div className="bg-black/60 backdrop-blur-md border border-white/10 rounded-full px-5 py-2 text-white/80 text-xs font-mono uppercase tracking-widest">
+               {celebration.moves} moves
+               {celebration.durationMs !== null && <> &middot; {(celebration.durationMs / 1000).toFixed(2)}s</>}
+               {celebration.assisted && <> &middot; assisted</>}
+             </div>
+           </div>
+        )}
+
         {/* Main Controls */}
         <div className="flex flex-col-reverse gap-4 pointer-events-auto items-center justify-center w-full max-w-3xl mx-auto mb-8 pb-[env(safe-area-inset-bottom)]">
           
           <div className="bg-black/60 backdrop-blur-xl border border-white/10 rounded-2xl p-2.5 flex gap-2 sm:gap-3 shadow-2xl shadow-black/50 ring-1 ring-white/5 transform transition-all relative z-[100]">
             
             <button 
-              onClick={handleShuffle} 
+              onClick={() => handleShuffle()} 
               disabled={isBusy}
               className="group relative flex items-center gap-2 px-4 sm:px-6 py-3 rounded-xl bg-gradient-to-b from-indigo-500 to-indigo-700 hover:from-indigo-400 hover:to-indigo-600 text-white font-bold shadow-lg transition disabled:opacity-50 disabled:cursor-not-allowed active:scale-95"
             >
-              <Shuffle size={18} />
+              {isScrambling ? <Loader2 size={18} className="animate-spin" /> : <Shuffle size={18} />}
               <span className="hidden sm:inline">SHAKE</span>
               {/* Custom inline tooltip for main button */}
               <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-4 hidden group-hover:flex flex-col items-center opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none z-50">
@@ -401,11 +1115,11 @@ function App() {
 
             <button 
               onClick={handleSolve} 
-              disabled={isBusy || history.length === 0}
+              disabled={isBusy || !canSolve}
               className="group relative flex items-center gap-2 px-4 sm:px-6 py-3 rounded-xl bg-gradient-to-b from-emerald-500 to-emerald-700 hover:from-emerald-400 hover:to-emerald-600 text-white font-bold shadow-lg transition disabled:opacity-50 disabled:cursor-not-allowed active:scale-95"
             >
-              <RotateCcw size={18} />
-              <span className="hidden sm:inline">SOLVE</span>
+              {isSolving ? <Loader2 size={18} className="animate-spin" /> : <RotateCcw size={18} />}
+              <span className="hidden sm:inline">{isSolving ? 'SOLVING' : 'SOLVE'}</span>
                <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-4 hidden group-hover:flex flex-col items-center opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none z-50">
                 <div className="bg-gray-900/90 backdrop-blur-md text-white text-xs px-3 py-2 rounded-lg shadow-xl whitespace-nowrap flex items-center gap-2 border border-white/10 transform translate-y-1 group-hover:translate-y-0 transition-transform">
                   Solve <kbd className="bg-white/20 px-1.5 py-0.5 rounded text-[10px] font-mono font-bold shadow-sm">R</kbd>
@@ -416,6 +1130,22 @@ function App() {
 
             <div className="w-px bg-white/10 mx-1 my-2"></div>
 
+            <ControlButton 
+              onClick={handleUndo}
+              disabled={!canUndo}
+              icon={Undo2}
+              label="Undo"
+              hotkey="Ctrl+Z"
+            />
+
+            <ControlButton 
+              onClick={handleRedo}
+              disabled={!canRedo}
+              icon={Redo2}
+              label="Redo"
+              hotkey="Ctrl+Shift+Z"
+            />
+
             <ControlButton 
               onClick={handleHint}
               disabled={isBusy}
@@ -434,6 +1164,33 @@ function App() {
               active={showSizeSelector}
             />
 
+            <ControlButton 
+              onClick={() => togglePanel('algorithm')}
+              disabled={isBusy}
+              icon={ScrollText}
+              label="Algorithm"
+              hotkey="A"
+              active={showAlgorithmPanel}
+            />
+
+            <ControlButton 
+              onClick={() => togglePanel('timer')}
+              disabled={isBusy}
+              icon={Timer}
+              label="Timer"
+              hotkey="I"
+              active={showTimerPanel}
+            />
+
+            <ControlButton 
+              onClick={() => togglePanel('keys')}
+              disabled={isBusy}
+              icon={Keyboard}
+              label="Keyboard"
+              hotkey="K"
+              active={showKeyPanel}
+            />
+
             <ControlButton 
               onClick={() => togglePanel('theme')}
               disabled={isBusy}
@@ -445,7 +1202,7 @@ function App() {
           </div>
 
           {/* Speed Slider (visible when no other panel is open) */}
-          {!showSizeSelector && !showThemeSelector && (
+          {!showSizeSelector && !showThemeSelector && !showAlgorithmPanel && !showTimerPanel && !showKeyPanel && (
             <div className="flex items-center gap-3 bg-black/40 backdrop-blur-md rounded-full px-5 py-2 border border-white/5 animate-in fade-in slide-in-from-bottom-4 duration-500">
               <Gauge size={16} className="text-indigo-400" />
               <input
@@ -467,61 +1224,562 @@ function App() {
                    <div className="flex items-center gap-2 text-indigo-300 font-mono text-xs uppercase tracking-wider">
                      <Grid3x3 size={16} /> Cube Dimension
                    </div>
-                   <span className="text-2xl font-black text-white">{cubeSize} x {cubeSize}</span>
+                   <span className="text-2xl font-black text-white">{toDims(cubeShape).slice(0, isCuboid(cubeShape) ? 3 : 2).join(' x ')}</span>
+                </div>
+
+                <div className="flex gap-1.5">
+                  {[false, true].map(cuboid => (
+                    <button
+                      key={String(cuboid)}
+                      onClick={() => {
+                        setIsCuboidMode(cuboid);
+                        // Back to a cube of the largest dimension
+                        if (!cuboid && isCuboid(cubeShape)) handleShapeChange(Math.max(...toDims(cubeShape)));
+                      }}
+                      disabled={isBusy}
+                      className={`flex-1 px-3 py-1 rounded-lg text-xs font-bold uppercase tracking-wider transition disabled:opacity-50 ${isCuboidMode === cuboid ? 'bg-indigo-600 text-white' : 'bg-white/5 hover:bg-white/10 text-white/60'}`}
+                    >
+                      {cuboid ? 'Cuboid' : 'Cube'}
+                    </button>
+                  ))}
                 </div>
                 
+                {isCuboidMode ? (
+                  <>
+                    {(['Width', 'Height', 'Depth'] as const).map((label, axis) => (
+                      <div key={label} className="flex items-center gap-3">
+                        <span className="text-[10px] text-white/40 uppercase font-bold tracking-widest w-12">{label}</span>
+                        <input
+                          type="range"
+                          min={MIN_CUBE_SIZE}
+                          max={MAX_CUBE_SIZE}
+                          step="1"
+                          value={toDims(cubeShape)[axis]}
+                          onChange={(e) => handleShapeChange(toDims(cubeShape).map((n, i) => (i === axis ? Number(e.target.value) : n)) as Dims)}
+                          className="flex-1 h-2 bg-white/20 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                        />
+                        <span className="text-xs font-mono text-white/60 w-6 text-right">{toDims(cubeShape)[axis]}</span>
+                      </div>
+                    ))}
+                    <p className="text-[10px] text-white/40">Layers that are not square only turn 180&deg;.</p>
+                  </>
+                ) : (
+                  <>
+                    <input
+                      type="range"
+                      min={MIN_CUBE_SIZE}
+                      max={MAX_CUBE_SIZE}
+                      step="1"
+                      value={toDims(cubeShape)[0]}
+                      onChange={(e) => handleShapeChange(Number(e.target.value))}
+                      className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                    />
+                    
+                    <div className="flex justify-between text-[10px] text-white/40 uppercase font-bold tracking-widest">
+                      <span>Pocket (2)</span>
+                      <span>Max ({MAX_CUBE_SIZE})</span>
+                    </div>
+                  </>
+                )}
+
+                <label className="flex items-center justify-between gap-3 pt-2 border-t border-white/10 cursor-pointer">
+                  <span className="flex flex-col">
+                    <span className="text-xs font-bold text-white/80">Supercube</span>
+                    <span className="text-[10px] text-white/40">Stickers show which way they point; centres must face the right way too.</span>
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={isSupercubeMode}
+                    onChange={(e) => handleShapeChange(cubeShape, e.target.checked)}
+                    disabled={isBusy}
+                    className="w-4 h-4 accent-indigo-500"
+                  />
+                </label>
+
+                <form
+                  className="flex items-center gap-2"
+                  onSubmit={(e) => { e.preventDefault(); if (seedValue !== null) handleShuffle(seedValue); }}
+                >
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={seedText}
+                    onChange={(e) => setSeedText(e.target.value)}
+                    placeholder="Scramble seed"
+                    className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm font-mono text-white placeholder-white/30 focus:outline-none focus:border-indigo-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={isBusy || seedValue === null}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold uppercase tracking-wider transition disabled:opacity-50"
+                  >
+                    <Shuffle size={14} /> Scramble
+                  </button>
+                </form>
+             </div>
+          )}
+
+          {/* Algorithm Player Panel */}
+          {showAlgorithmPanel && (
+            <div className="bg-black/80 backdrop-blur-xl border border-indigo-500/30 p-4 rounded-2xl flex flex-col gap-3 shadow-2xl w-full max-w-2xl animate-in slide-in-from-bottom-4 fade-in duration-300">
+              <div className="flex items-center gap-2 text-indigo-300 font-mono text-xs uppercase tracking-wider">
+                <ScrollText size={16} /> Algorithm
+              </div>
+
+              <div className="flex gap-2">
+                <textarea
+                  value={algorithmText}
+                  onChange={(e) => setAlgorithmText(e.target.value)}
+                  placeholder="R U R' U' or a scramble"
+                  rows={2}
+                  spellCheck={false}
+                  className="flex-1 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm font-mono text-white placeholder-white/30 resize-none focus:outline-none focus:border-indigo-500"
+                />
+                <button
+                  onClick={loadAlgorithm}
+                  disabled={isBusy || !algorithmText.trim()}
+                  className="px-4 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold uppercase tracking-wider transition disabled:opacity-50 disabled:cursor-not-allowed active:scale-95"
+                >
+                  Load
+                </button>
+              </div>
+
+              {algorithmError && (
+                <div className="text-xs font-mono text-red-300 flex flex-col gap-1">
+                  <span>{algorithmError.message}</span>
+                  <span className="text-white/40 whitespace-pre-wrap break-all">
+                    {algorithmText.slice(0, algorithmError.start)}
+                    <mark className="bg-red-500/80 text-white rounded px-0.5">{algorithmError.token}</mark>
+                    {algorithmText.slice(algorithmError.end)}
+                  </span>
+                </div>
+              )}
+
+              {algorithmTokens.length > 0 && (
+                <>
+                  <div className="flex flex-wrap gap-1 font-mono text-sm max-h-24 overflow-y-auto">
+                    {algorithmTokens.map((token, i) => (
+                      <button
+                        key={i}
+                        onClick={() => seekAlgorithm(i + 1)}
+                        disabled={isBusy}
+                        className={`px-1.5 rounded transition ${i === playerPosition - 1 ? 'bg-indigo-500 text-white' : i < playerPosition ? 'text-white' : 'text-white/40 hover:text-white/70'}`}
+                      >
+                        {token.text}
+                      </button>
+                    ))}
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => seekAlgorithm(playerPosition - 1)}
+                      disabled={isBusy || playerPosition === 0}
+                      className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <StepBack size={16} />
+                    </button>
+                    <button
+                      onClick={() => setIsPlaying(!isPlaying)}
+                      disabled={!isPlaying && (isBusy || playerPosition >= algorithmTokens.length)}
+                      className="p-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+                    </button>
+                    <button
+                      onClick={() => seekAlgorithm(playerPosition + 1)}
+                      disabled={isBusy || playerPosition >= algorithmTokens.length}
+                      className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <StepForward size={16} />
+                    </button>
+                    <input
+                      type="range"
+                      min="0"
+                      max={algorithmTokens.length}
+                      value={playerPosition}
+                      onChange={(e) => seekAlgorithm(Number(e.target.value))}
+                      disabled={isBusy}
+                      className="flex-1 h-1.5 bg-white/20 rounded-lg appearance-none cursor-pointer accent-indigo-500 disabled:cursor-not-allowed"
+                    />
+                    <span className="text-xs font-mono text-white/60 w-14 text-right">{playerPosition}/{algorithmTokens.length}</span>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Timer Panel */}
+          {showTimerPanel && (
+            <div className="bg-black/80 backdrop-blur-xl border border-indigo-500/30 p-4 rounded-2xl flex flex-col gap-3 shadow-2xl w-full max-w-2xl animate-in slide-in-from-bottom-4 fade-in duration-300">
+              <div className="flex items-center gap-2">
+                <div className="flex items-center gap-2 text-indigo-300 font-mono text-xs uppercase tracking-wider mr-auto">
+                  <Timer size={16} /> Timer
+                </div>
+                <select
+                  value={activeSession.id}
+                  onChange={(e) => setActiveSessionId(e.target.value)}
+                  disabled={isTiming}
+                  className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500"
+                >
+                  {timerSessions.map(session => (
+                    <option key={session.id} value={session.id} className="bg-gray-900">{session.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleDeleteSession}
+                  disabled={isTiming || timerSessions.length < 2}
+                  className="p-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-white transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Trash2 size={14} />
+                </button>
                 <input
-                  type="range"
-                  min="2"
-                  max="10"
-                  step="1"
-                  value={cubeSize}
-                  onChange={(e) => handleSizeChange(Number(e.target.value))}
-                  className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                  value={newSessionName}
+                  onChange={(e) => setNewSessionName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleCreateSession()}
+                  placeholder="New session"
+                  className="w-28 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white placeholder-white/30 focus:outline-none focus:border-indigo-500"
                 />
-                
-                <div className="flex justify-between text-[10px] text-white/40 uppercase font-bold tracking-widest">
-                  <span>Pocket (2)</span>
-                  <span>Max (10)</span>
+                <button
+                  onClick={handleCreateSession}
+                  disabled={isTiming}
+                  className="p-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-white transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Plus size={14} />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-5 gap-2 text-center font-mono">
+                {sessionStats(activeSession.solves).map(stat => (
+                  <div key={stat.label} className="bg-white/5 rounded-lg py-1.5">
+                    <div className="text-[10px] text-white/40 uppercase tracking-widest">{stat.label}</div>
+                    <div className="text-sm text-white">{formatTime(stat.current)}</div>
+                    <div className="text-[10px] text-emerald-400/80">best {formatTime(stat.best)}</div>
+                  </div>
+                ))}
+              </div>
+
+              {activeSession.solves.length > 0 && (
+                <div className="flex flex-col gap-1 max-h-32 overflow-y-auto font-mono text-xs">
+                  {[...activeSession.solves].reverse().map((solve, i) => (
+                    <div key={solve.id} className="flex items-center gap-2 text-white/80">
+                      <span className="w-8 text-white/30">{activeSession.solves.length - i}.</span>
+                      <span className="w-24">{formatSolve(solve)}</span>
+                      <span className="text-white/30 mr-auto">{shapeName(solve.dims ?? solve.size)}</span>
+                      {(['+2', 'DNF'] as Penalty[]).map(penalty => (
+                        <button
+                          key={penalty}
+                          onClick={() => setSolvePenalty(solve.id, solve.penalty === penalty ? 'none' : penalty)}
+                          className={`px-1.5 rounded transition ${solve.penalty === penalty ? 'bg-red-500/80 text-white' : 'bg-white/5 hover:bg-white/10'}`}
+                        >
+                          {penalty}
+                        </button>
+                      ))}
+                      <button onClick={() => deleteSolve(solve.id)} className="p-0.5 rounded hover:bg-white/10">
+                        <X size={12} />
+                      </button>
+                    </div>
+                  ))}
                 </div>
-             </div>
+              )}
+
+              <div className="flex justify-center">
+                {isTiming ? (
+                  <button
+                    onClick={cancelTimer}
+                    className="px-4 py-2 rounded-xl bg-white/5 hover:bg-white/10 text-white text-xs font-bold uppercase tracking-wider transition active:scale-95"
+                  >
+                    Cancel (Esc)
+                  </button>
+                ) : (
+                  <button
+                    onClick={startInspection}
+                    disabled={!canInspect}
+                    className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold uppercase tracking-wider transition disabled:opacity-50 disabled:cursor-not-allowed active:scale-95"
+                  >
+                    Start inspection (Space)
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Keyboard Turning Panel */}
+          {showKeyPanel && (
+            <div className="bg-black/80 backdrop-blur-xl border border-indigo-500/30 p-4 rounded-2xl flex flex-col gap-3 shadow-2xl w-full max-w-2xl animate-in slide-in-from-bottom-4 fade-in duration-300">
+              <div className="flex items-center gap-2">
+                <div className="flex items-center gap-2 text-indigo-300 font-mono text-xs uppercase tracking-wider mr-auto">
+                  <Keyboard size={16} /> Keyboard Turning
+                </div>
+                <select
+                  value={matchingPreset(keyboardSettings.map) ?? ''}
+                  onChange={(e) => updateKeyboardSettings(settings => ({ ...settings, map: KEY_MAP_PRESETS[e.target.value] }))}
+                  className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-indigo-500"
+                >
+                  {matchingPreset(keyboardSettings.map) === null && <option value="" className="bg-gray-900">custom</option>}
+                  {Object.keys(KEY_MAP_PRESETS).map(preset => (
+                    <option key={preset} value={preset} className="bg-gray-900">{preset}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => updateKeyboardSettings(settings => ({ ...settings, enabled: !settings.enabled }))}
+                  className={`px-3 py-1 rounded-lg text-xs font-bold uppercase tracking-wider transition ${keyboardSettings.enabled ? 'bg-indigo-600 hover:bg-indigo-500 text-white' : 'bg-white/5 hover:bg-white/10 text-white/60'}`}
+                >
+                  {keyboardSettings.enabled ? 'On' : 'Off'}
+                </button>
+              </div>
+
+              <div className="grid grid-cols-4 gap-1.5 max-h-48 overflow-y-auto font-mono text-xs">
+                {KEY_ACTIONS.map(action => (
+                  <div key={action} className="flex items-center gap-1 bg-white/5 rounded-lg px-2 py-1">
+                    <span className="w-6 text-white">{action}</span>
+                    <div className="flex flex-wrap gap-1 mr-auto">
+                      {Object.keys(keyboardSettings.map).filter(code => keyboardSettings.map[code] === action).map(code => (
+                        <button
+                          key={code}
+                          onClick={() => unbindKey(code)}
+                          title="Remove"
+                          className="px-1.5 rounded bg-white/10 hover:bg-red-500/80 text-white/80 transition"
+                        >
+                          {keyLabel(code)}
+                        </button>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => setCapturingAction(capturingAction === action ? null : action)}
+                      className={`p-0.5 rounded transition ${capturingAction === action ? 'bg-indigo-500 text-white' : 'hover:bg-white/10 text-white/40'}`}
+                    >
+                      <Plus size={12} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="text-[10px] text-white/40 uppercase tracking-widest text-center">
+                {capturingAction
+                  ? `Press a key for ${capturingAction}, Esc to cancel`
+                  : 'Shift turns wide, Alt turns the inner slice. Bound keys override shortcuts.'}
+              </div>
+            </div>
           )}
 
           {/* Theme Selector Panel */}
           {showThemeSelector && (
-            <div className="bg-black/80 backdrop-blur-xl border border-indigo-500/30 p-4 rounded-2xl flex flex-wrap justify-center gap-3 shadow-2xl w-full max-w-2xl animate-in slide-in-from-bottom-4 fade-in duration-300">
-              {Object.keys(PRESET_THEMES).map((themeName) => (
-                <button
-                  key={themeName}
-                  onClick={() => applyTheme(themeName)}
-                  className={`group relative px-4 py-2 rounded-xl border transition-all duration-300 ${activeThemeName === themeName ? 'bg-white/10 border-indigo-500 shadow-[0_0_15px_rgba(99,102,241,0.5)]' : 'bg-transparent border-white/10 hover:border-white/40'}`}
+            <div className="bg-black/80 backdrop-blur-xl border border-indigo-500/30 p-4 rounded-2xl flex flex-col gap-4 shadow-2xl w-full max-w-2xl animate-in slide-in-from-bottom-4 fade-in duration-300">
+              <div className="flex flex-wrap justify-center gap-3">
+                {[...Object.keys(PRESET_THEMES), ...Object.keys(customThemes)].map((themeName) => {
+                  const listed = PRESET_THEMES[themeName] ?? customThemes[themeName];
+                  const isCustom = !PRESET_THEMES[themeName];
+                  return (
+                    <button
+                      key={themeName}
+                      onClick={() => applyTheme(themeName)}
+                      className={`group relative px-4 py-2 rounded-xl border transition-all duration-300 ${activeThemeName === themeName ? 'bg-white/10 border-indigo-500 shadow-[0_0_15px_rgba(99,102,241,0.5)]' : 'bg-transparent border-white/10 hover:border-white/40'}`}
+                    >
+                      <div className="flex flex-col items-center gap-2">
+                         <div className="flex gap-0.5">
+                            {[listed.F, listed.R, listed.U].map((c, i) => (
+                              <div key={i} className="w-3 h-3 rounded-full" style={{ backgroundColor: c }} />
+                            ))}
+                         </div>
+                         <span className={`text-xs font-bold uppercase tracking-wider ${activeThemeName === themeName ? 'text-white' : 'text-gray-400 group-hover:text-gray-200'}`}>
+                           {themeName}
+                         </span>
+                      </div>
+                      {activeThemeName === themeName && (
+                        <div className="absolute -top-2 -right-2 bg-indigo-500 rounded-full p-0.5 text-white">
+                          <Check size={10} strokeWidth={4} />
+                        </div>
+                      )}
+                      {isCustom && activeThemeName !== themeName && (
+                        <span
+                          role="button"
+                          title={`Delete ${themeName}`}
+                          onClick={(e) => { e.stopPropagation(); handleDeleteTheme(themeName); }}
+                          className="absolute -top-2 -right-2 hidden group-hover:block bg-red-500/80 hover:bg-red-500 rounded-full p-0.5 text-white"
+                        >
+                          <X size={10} strokeWidth={4} />
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {/* Custom Theme Editor */}
+              <div className="flex flex-col gap-3 pt-3 border-t border-white/10">
+                <form
+                  className="flex items-center gap-2"
+                  onSubmit={(e) => { e.preventDefault(); handleGenerateTheme(); }}
                 >
-                  <div className="flex flex-col items-center gap-2">
-                     <div className="flex gap-0.5">
-                        {[PRESET_THEMES[themeName].F, PRESET_THEMES[themeName].R, PRESET_THEMES[themeName].U].map((c, i) => (
-                          <div key={i} className="w-3 h-3 rounded-full" style={{ backgroundColor: c }} />
-                        ))}
-                     </div>
-                     <span className={`text-xs font-bold uppercase tracking-wider ${activeThemeName === themeName ? 'text-white' : 'text-gray-400 group-hover:text-gray-200'}`}>
-                       {themeName}
-                     </span>
+                  <input
+                    type="text"
+                    value={themePrompt}
+                    onChange={(e) => setThemePrompt(e.target.value)}
+                    placeholder="Describe a theme, e.g. autumn forest at dusk"
+                    maxLength={MAX_PROMPT_LENGTH}
+                    disabled={isGeneratingTheme}
+                    className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white placeholder-white/30 focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+                  />
+                  <button
+                    type="submit"
+                    disabled={isGeneratingTheme || !themePrompt.trim()}
+                    title={`Generated by ${themeProvider.label}`}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold uppercase tracking-wider transition disabled:opacity-50"
+                  >
+                    {isGeneratingTheme ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />} Generate
+                  </button>
+                </form>
+                <div className="-mt-2 text-[10px] text-white/30 uppercase tracking-widest">Generator: {themeProvider.label}</div>
+                <div className="grid grid-cols-4 sm:grid-cols-7 gap-2">
+                  {THEME_KEYS.map(key => (
+                    <label key={key} className="flex flex-col items-center gap-1 cursor-pointer">
+                      <input
+                        type="color"
+                        value={theme[key]}
+                        onChange={(e) => handleThemeColorChange(key, e.target.value)}
+                        className="w-10 h-10 rounded-lg bg-transparent border border-white/20 cursor-pointer"
+                      />
+                      <span className="text-[10px] text-white/50 uppercase font-bold tracking-widest">{THEME_KEY_LABELS[key]}</span>
+                    </label>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-1.5">
+                  {STICKER_FINISHES.map(surface => (
+                    <button
+                      key={surface}
+                      onClick={() => handleFinishChange({ surface })}
+                      className={`px-3 py-1 rounded-lg text-xs font-bold uppercase tracking-wider transition ${themeFinish(theme).surface === surface ? 'bg-indigo-600 text-white' : 'bg-white/5 hover:bg-white/10 text-white/60'}`}
+                    >
+                      {surface}
+                    </button>
+                  ))}
+                  <label className="ml-auto flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-white/60 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={themeFinish(theme).stickerless}
+                      onChange={(e) => handleFinishChange({ stickerless: e.target.checked })}
+                      className="w-4 h-4 accent-indigo-500"
+                    />
+                    Stickerless
+                  </label>
+                </div>
+                {([
+                  { label: 'Bevel', key: 'bevel', range: BEVEL_RANGE, step: 0.01 },
+                  { label: 'Sticker', key: 'stickerSize', range: STICKER_SIZE_RANGE, step: 0.02 },
+                ] as const).map(({ label, key, range, step }) => (
+                  <div key={key} className="flex items-center gap-3">
+                    <span className="text-[10px] text-white/40 uppercase font-bold tracking-widest w-12">{label}</span>
+                    <input
+                      type="range"
+                      min={range.min}
+                      max={range.max}
+                      step={step}
+                      value={themeFinish(theme)[key]}
+                      onChange={(e) => handleFinishChange({ [key]: Number(e.target.value) })}
+                      disabled={key === 'stickerSize' && themeFinish(theme).stickerless}
+                      className="flex-1 h-2 bg-white/20 rounded-lg appearance-none cursor-pointer accent-indigo-500 disabled:opacity-30"
+                    />
+                    <span className="text-xs font-mono text-white/60 w-10 text-right">{Math.round(themeFinish(theme)[key] * 100)}%</span>
                   </div>
-                  {activeThemeName === themeName && (
-                    <div className="absolute -top-2 -right-2 bg-indigo-500 rounded-full p-0.5 text-white">
-                      <Check size={10} strokeWidth={4} />
+                ))}
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={themeDraftName}
+                    onChange={(e) => { setThemeDraftName(e.target.value); setThemeError(null); }}
+                    placeholder="Theme name"
+                    maxLength={32}
+                    className="flex-1 min-w-[8rem] bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white placeholder-white/30 focus:outline-none focus:border-indigo-500"
+                  />
+                  <button
+                    onClick={handleSaveTheme}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold uppercase tracking-wider transition"
+                  >
+                    <Save size={14} /> Save
+                  </button>
+                  <button
+                    onClick={handleExportTheme}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-white/80 text-xs font-bold uppercase tracking-wider transition"
+                  >
+                    <Download size={14} /> Export
+                  </button>
+                  <label className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-white/80 text-xs font-bold uppercase tracking-wider transition cursor-pointer">
+                    <Upload size={14} /> Import
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleImportTheme(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                </div>
+                {themeError && <div className="text-xs text-red-400">{themeError}</div>}
+              </div>
+
+              {/* Accessibility */}
+              <div className="flex flex-col gap-3 pt-3 border-t border-white/10">
+                <label className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-white/60 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={facePatterns}
+                    onChange={(e) => handleFacePatternsChange(e.target.checked)}
+                    className="w-4 h-4 accent-indigo-500"
+                  />
+                  Face patterns
+                  <span className="normal-case font-normal tracking-normal text-white/30">A shape per face colour on every sticker</span>
+                </label>
+                <div className="flex flex-col gap-1.5">
+                  <span className="text-[10px] text-white/40 uppercase font-bold tracking-widest">Preview colour vision</span>
+                  {COLOR_DEFICIENCIES.map(deficiency => {
+                    const seen = simulateTheme(theme, deficiency);
+                    return (
+                      <button
+                        key={deficiency}
+                        onClick={() => setPreviewDeficiency(previewDeficiency === deficiency ? null : deficiency)}
+                        className={`flex items-center gap-3 px-3 py-1.5 rounded-lg border transition ${previewDeficiency === deficiency ? 'bg-white/10 border-indigo-500' : 'bg-transparent border-white/10 hover:border-white/40'}`}
+                      >
+                        <div className="flex gap-1">
+                          {THEME_KEYS.filter(key => key !== 'core').map(key => (
+                            <div key={key} className="w-4 h-4 rounded-sm border border-white/20" style={{ backgroundColor: seen[key] }} />
+                          ))}
+                        </div>
+                        <span className={`text-xs ${previewDeficiency === deficiency ? 'text-white' : 'text-white/60'}`}>{DEFICIENCY_LABELS[deficiency]} <span className="text-white/30">({DEFICIENCY_DESCRIPTIONS[deficiency]})</span></span>
+                      </button>
+                    );
+                  })}
+                </div>
+                {colorCollisions.length > 0 && (
+                  <div className="flex gap-2 text-xs text-amber-300">
+                    <TriangleAlert size={14} className="shrink-0 mt-0.5" />
+                    <div className="flex flex-col gap-0.5">
+                      {COLOR_DEFICIENCIES.map(deficiency => {
+                        const pairs = colorCollisions.filter(collision => collision.deficiency === deficiency);
+                        if (pairs.length === 0) return null;
+                        return (
+                          <span key={deficiency}>
+                            {DEFICIENCY_LABELS[deficiency]}: {pairs.map(({ faces: [a, b] }) => `${THEME_KEY_LABELS[a]} and ${THEME_KEY_LABELS[b]}`).join(', ')} look alike
+                          </span>
+                        );
+                      })}
+                      {!facePatterns && <span className="text-amber-300/70">Face patterns keep these faces apart.</span>}
                     </div>
-                  )}
-                </button>
-              ))}
+                  </div>
+                )}
+              </div>
             </div>
           )}
         </div>
         
         <div className="hidden sm:block absolute bottom-8 right-8 pointer-events-none text-right">
           <div className="text-white/20 font-mono text-[10px] tracking-widest uppercase leading-relaxed">
-             Matrix: {cubeSize}x{cubeSize}x{cubeSize}<br/>
-             Total Cubies: {Math.pow(cubeSize, 3)}<br/>
-             Moves in Stack: {history.length}
+             Matrix: {toDims(cubeShape).join('x')}<br/>
+             Total Cubies: {toDims(cubeShape).reduce((a, b) => a * b)}<br/>
+             Moves in Stack: {history.length}<br/>
+             Solves: {solveRecords.length}
           </div>
         </div>
 
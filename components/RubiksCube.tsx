@@ -1,70 +1,245 @@
-import React, { useRef, useState, useMemo, useEffect } from 'react';
+import React, { useRef, useState, useMemo, useEffect, useLayoutEffect } from 'react';
 import { useFrame, useThree, ThreeEvent } from '@react-three/fiber';
-import { RoundedBox, Html } from '@react-three/drei';
+import { Html } from '@react-three/drei';
 import * as THREE from 'three';
-import { CubeTheme, Move } from '../types';
+import { RoundedBoxGeometry } from 'three/examples/jsm/geometries/RoundedBoxGeometry.js';
+import { Axis, CubeTheme, Move, StickerFinish } from '../types';
 import { isSurface } from '../constants';
+import {
+  CubeState, Face, FACES, FACE_FRAMES, Shape, canQuarterTurn, createMove, faceFromNormal, faceletCount, faceletIndexForCubie,
+  isSolved, layerCount, moveAmount, moveLastLayer, movesEqual, toDims,
+} from '../lib/cubeState';
+import { themeFinish } from '../lib/themes';
 import { ChevronUp, ChevronDown, ChevronLeft, ChevronRight, X } from 'lucide-react';
 
 interface RubiksCubeProps {
-  size: number;
+  shape: Shape;
+  // Logical state the cube is painted from when it mounts; afterwards the
+  // renderer mirrors it by animating the same moves the model applies.
+  state: CubeState;
   theme: CubeTheme;
   moveQueue: Move[];
-  onMoveComplete: () => void;
+  onMoveComplete: (move: Move) => void;
   onManualMove?: (move: Move) => void;
+  onSolved?: () => void;
   onInteractionChange?: (isInteracting: boolean) => void;
   setOrbitEnabled?: (enabled: boolean) => void;
   isShaking: boolean;
   speed: number;
   activeHint: Move | null;
+  autoOrbit?: boolean; // swing the camera round to the hinted layer
+  facePatterns?: boolean; // a glyph per face colour on every sticker
 }
 
 // Visual constants
 const BOX_SIZE = 0.90; 
-const BEVEL_RADIUS = 0.06; 
 const STICKER_OFFSET = 0.455; 
-const STICKER_SIZE = 0.80; 
 const HIGHLIGHT_OFFSET = 0.46; // Slightly above sticker
+const MARKER_LIFT = 0.003; // Supercube markers sit just above their sticker
+const GLYPH_LIFT = 0.002; // Face pattern glyphs too, under any marker
+
+// Drag-to-turn tuning, in screen pixels and radians per second
+const DRAG_THRESHOLD = 12;
+const QUARTER_TURN_PIXELS = 110;
+const SPRING_SPEED = 8;
+
+const axisVector = (axis: Axis) => new THREE.Vector3(axis === 'x' ? 1 : 0, axis === 'y' ? 1 : 0, axis === 'z' ? 1 : 0);
+
+type ArrowDir = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
+const ARROW_DIRS: ArrowDir[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+
+// Placement of a sticker (or its highlight) on each face of a cubie
+const FACE_ROTATIONS: Record<Face, [number, number, number]> = {
+  R: [0, Math.PI / 2, 0],
+  L: [0, -Math.PI / 2, 0],
+  U: [-Math.PI / 2, 0, 0],
+  D: [Math.PI / 2, 0, 0],
+  F: [0, 0, 0],
+  B: [0, Math.PI, 0],
+};
+
+const faceNormal = (face: Face) => {
+  const n = new THREE.Vector3(0, 0, 1).applyEuler(new THREE.Euler(...FACE_ROTATIONS[face]));
+  return n.round();
+};
+
+const faceOffset = (face: Face, distance: number) => faceNormal(face).multiplyScalar(distance);
+
+// Sticker transform relative to its cubie, per face
+const STICKER_MATRICES = Object.fromEntries(FACES.map(face => [
+  face,
+  new THREE.Matrix4().compose(
+    faceOffset(face, STICKER_OFFSET),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(...FACE_ROTATIONS[face])),
+    new THREE.Vector3(1, 1, 1)
+  ),
+])) as Record<Face, THREE.Matrix4>;
+
+// Turn of a supercube marker about its sticker's normal that points it at
+// the face's up direction, from which the model counts sticker twists
+const MARKER_ANGLES = Object.fromEntries(FACES.map(face => {
+  const normal = faceNormal(face);
+  const markerUp = new THREE.Vector3(0, 1, 0).applyEuler(new THREE.Euler(...FACE_ROTATIONS[face]));
+  const faceUp = new THREE.Vector3(...FACE_FRAMES[face].down).negate();
+  return [face, Math.atan2(normal.dot(new THREE.Vector3().crossVectors(markerUp, faceUp)), markerUp.dot(faceUp))];
+})) as Record<Face, number>;
+
+// Marker transform relative to its cubie for a sticker twisted `twist`
+// quarter turns clockwise
+const markerMatrix = (face: Face, twist: number) =>
+  STICKER_MATRICES[face].clone()
+    .multiply(new THREE.Matrix4().makeTranslation(0, 0, MARKER_LIFT))
+    .multiply(new THREE.Matrix4().makeRotationZ(MARKER_ANGLES[face] - (twist * Math.PI) / 2));
+
+// Face pattern glyph transform relative to its cubie. On supercubes the
+// glyph moves into a corner to leave the middle to the twist marker.
+const glyphMatrix = (face: Face, supercube: boolean) =>
+  STICKER_MATRICES[face].clone()
+    .multiply(new THREE.Matrix4().makeTranslation(supercube ? -0.2 : 0, supercube ? -0.2 : 0, GLYPH_LIFT))
+    .multiply(new THREE.Matrix4().makeScale(supercube ? 0.55 : 1, supercube ? 0.55 : 1, 1));
+
+// One glyph shape per face colour, sized for the default sticker, so faces
+// can be told apart without relying on colour
+const createGlyphGeometries = (scale: number): Record<Face, THREE.BufferGeometry> => {
+  const polygon = (points: [number, number][]) =>
+    new THREE.ShapeGeometry(new THREE.Shape(points.map(([x, y]) => new THREE.Vector2(x, y))));
+  const arm = 0.07;
+  const geometries: Record<Face, THREE.BufferGeometry> = {
+    U: new THREE.CircleGeometry(0.17, 24),
+    D: polygon([[-0.15, -0.15], [0.15, -0.15], [0.15, 0.15], [-0.15, 0.15]]),
+    L: polygon([[0, 0.19], [-0.18, -0.13], [0.18, -0.13]]),
+    R: polygon([[0, 0.2], [-0.2, 0], [0, -0.2], [0.2, 0]]),
+    F: polygon([
+      [-arm, 0.2], [arm, 0.2], [arm, arm], [0.2, arm], [0.2, -arm], [arm, -arm],
+      [arm, -0.2], [-arm, -0.2], [-arm, -arm], [-0.2, -arm], [-0.2, arm], [-arm, arm],
+    ]),
+    B: new THREE.RingGeometry(0.1, 0.18, 24),
+  };
+  FACES.forEach(face => geometries[face].scale(scale, scale, 1));
+  return geometries;
+};
+
+// How much a face must point at the camera before its stickers carry hints
+const MIN_HINT_FACING = 0.15;
+const AUTO_ORBIT_SPEED = 4;
+
+// Material settings of each surface finish
+const SURFACES: Record<StickerFinish, THREE.MeshPhysicalMaterialParameters> = {
+  matte: { roughness: 0.85, metalness: 0.0, clearcoat: 0.0, clearcoatRoughness: 0.0 },
+  // Reduced roughness and added clearcoat for a nice glossy plastic look
+  glossy: { roughness: 0.2, metalness: 0.0, clearcoat: 0.3, clearcoatRoughness: 0.1 },
+  metallic: { roughness: 0.3, metalness: 0.85, clearcoat: 0.5, clearcoatRoughness: 0.15 },
+};
+// Bodies under stickers
+const PLASTIC: THREE.MeshPhysicalMaterialParameters = { roughness: 0.4, metalness: 0.0, clearcoat: 0.0, clearcoatRoughness: 0.0 };
+
+// Lets the body material colour each side of a cubie separately, which
+// stickerless cubes need. The six sRGB colours arrive as 0xRRGGBB values in
+// two per-instance attributes and are picked by the vertex normal in the
+// cubie's own frame, so they turn with the cubie.
+const applyFaceColors = (shader: THREE.WebGLProgramParametersWithUniforms) => {
+  shader.vertexShader = `
+    attribute vec3 faceColorsA; // +x, -x, +y
+    attribute vec3 faceColorsB; // -y, +z, -z
+    varying vec3 vFaceColor;
+    vec3 unpackFaceColor(float value) {
+      vec3 srgb = vec3(floor(value / 65536.0), mod(floor(value / 256.0), 256.0), mod(value, 256.0)) / 255.0;
+      return mix(srgb / 12.92, pow((srgb + 0.055) / 1.055, vec3(2.4)), step(vec3(0.04045), srgb));
+    }
+  ` + shader.vertexShader.replace('#include <beginnormal_vertex>', `#include <beginnormal_vertex>
+    vec3 axisWeight = abs(objectNormal);
+    float faceColor;
+    if (axisWeight.x >= axisWeight.y && axisWeight.x >= axisWeight.z) faceColor = objectNormal.x > 0.0 ? faceColorsA.x : faceColorsA.y;
+    else if (axisWeight.y >= axisWeight.z) faceColor = objectNormal.y > 0.0 ? faceColorsA.z : faceColorsB.x;
+    else faceColor = objectNormal.z > 0.0 ? faceColorsB.y : faceColorsB.z;
+    vFaceColor = unpackFaceColor(faceColor);
+  `);
+  shader.fragmentShader = 'varying vec3 vFaceColor;\n' + shader.fragmentShader.replace(
+    'vec4 diffuseColor = vec4( diffuse, opacity );',
+    'vec4 diffuseColor = vec4( diffuse * vFaceColor, opacity );'
+  );
+};
 
-// Reusable Geometry
-const stickerGeometry = new THREE.PlaneGeometry(STICKER_SIZE, STICKER_SIZE);
+// Body sides in the order the face colour attributes hold them
+const BODY_FACES: Face[] = ['R', 'L', 'U', 'D', 'F', 'B'];
+
+// An arrowhead pointing along the sticker's +y
+const markerGeometry = new THREE.ShapeGeometry(new THREE.Shape([
+  new THREE.Vector2(0, 0.26),
+  new THREE.Vector2(-0.2, -0.1),
+  new THREE.Vector2(0, -0.02),
+  new THREE.Vector2(0.2, -0.1),
+]));
+
+// Rendering is instanced: one InstancedMesh holds every cubie body and one
+// every sticker, so the draw call count does not grow with the cube. Stickers
+// keep their colour for life (it travels with the cubie), so colours are
+// only written on mount and when the theme changes. Supercubes add a third
+// mesh of orientation markers that move exactly like the stickers, and face
+// patterns one glyph mesh per colour.
+const cubieInstance = new THREE.Object3D();
+const turnedMatrix = new THREE.Matrix4();
+const stickerMatrix = new THREE.Matrix4();
+
+// Writes one instance matrix and marks just that instance for upload, so a
+// turning layer does not re-upload the whole buffer every frame (the renderer
+// merges adjacent ranges)
+const setInstanceMatrix = (mesh: THREE.InstancedMesh, index: number, matrix: THREE.Matrix4) => {
+  mesh.setMatrixAt(index, matrix);
+  mesh.instanceMatrix.addUpdateRange(16 * index, 16);
+};
+
+const flushInstanceMatrix = (mesh: THREE.InstancedMesh | null | undefined) => {
+  if (mesh && mesh.instanceMatrix.updateRanges.length > 0) mesh.instanceMatrix.needsUpdate = true;
+};
 
 const RubiksCube: React.FC<RubiksCubeProps> = ({ 
-  size, 
+  shape, 
+  state,
   theme, 
   moveQueue, 
   onMoveComplete, 
   onManualMove,
+  onSolved,
   onInteractionChange,
   setOrbitEnabled,
   isShaking, 
   speed,
-  activeHint
+  activeHint,
+  autoOrbit = false,
+  facePatterns = false
 }) => {
   const groupRef = useRef<THREE.Group>(null);
-  const rotatingGroup = useRef<THREE.Group>(null);
   const { camera, gl } = useThree();
+  // The largest dimension, which sets the scale and level of detail
+  const size = Math.max(...toDims(shape));
+  // Stable across renders, for hook dependencies
+  const shapeKey = toDims(shape).join('x');
+  // Centred coordinate of the outer layer along an axis
+  const layerOffset = (axis: Axis) => (layerCount(shape, axis) - 1) / 2;
+  // Read on mount, like the rest of the state; toggling it remounts the cube
+  const supercube = !!state.twists;
   
   // Ref for tracking touch/click movement for robust tap detection
   const clickStartRef = useRef<{ x: number, y: number } | null>(null);
 
+  const finish = themeFinish(theme);
+
   // --- Material Setup ---
   const materials = useMemo(() => {
-    // Reduced roughness and added clearcoat for a nice glossy plastic look
-    const matSettings = {
-      roughness: 0.2, 
-      metalness: 0.0,
-      clearcoat: 0.3,
-      clearcoatRoughness: 0.1,
-    };
+    const body = new THREE.MeshPhysicalMaterial({ color: '#ffffff' });
+    body.onBeforeCompile = applyFaceColors;
     return {
-      U: new THREE.MeshPhysicalMaterial({ color: theme.U, ...matSettings }),
-      D: new THREE.MeshPhysicalMaterial({ color: theme.D, ...matSettings }),
-      L: new THREE.MeshPhysicalMaterial({ color: theme.L, ...matSettings }),
-      R: new THREE.MeshPhysicalMaterial({ color: theme.R, ...matSettings }),
-      F: new THREE.MeshPhysicalMaterial({ color: theme.F, ...matSettings }),
-      B: new THREE.MeshPhysicalMaterial({ color: theme.B, ...matSettings }),
-      Plastic: new THREE.MeshPhysicalMaterial({ color: '#080808', roughness: 0.4, metalness: 0.0 }),
+      // White, so the per-instance colour comes through unchanged
+      Sticker: new THREE.MeshPhysicalMaterial({ color: '#ffffff' }),
+      // Coloured per side by the face colour attributes
+      Body: body,
+      Marker: new THREE.MeshBasicMaterial({ color: '#000000', transparent: true, opacity: 0.45, depthWrite: false }),
+      // One per face colour, black or white to stand out from the sticker
+      Glyphs: Object.fromEntries(FACES.map(face => [
+        face,
+        new THREE.MeshBasicMaterial({ transparent: true, opacity: 0.7, depthWrite: false }),
+      ])) as Record<Face, THREE.MeshBasicMaterial>,
       // High contrast white highlight
       Highlight: new THREE.MeshBasicMaterial({ 
         color: '#ffffff', 
@@ -74,43 +249,184 @@ const RubiksCube: React.FC<RubiksCubeProps> = ({
         side: THREE.DoubleSide
       })
     };
-  }, [theme]);
+  }, []);
+  useEffect(() => () => {
+    [materials.Sticker, materials.Body, materials.Marker, materials.Highlight, ...Object.values(materials.Glyphs)]
+      .forEach(material => material.dispose());
+  }, [materials]);
+
+  // Stickerless bodies take the surface finish, otherwise it is the stickers'
+  useLayoutEffect(() => {
+    materials.Sticker.setValues(SURFACES[finish.surface]);
+    materials.Body.setValues(finish.stickerless ? SURFACES[finish.surface] : PLASTIC);
+    materials.Sticker.needsUpdate = true;
+    materials.Body.needsUpdate = true;
+  }, [materials, finish.surface, finish.stickerless]);
+
+  useLayoutEffect(() => {
+    FACES.forEach(face => {
+      const { r, g, b } = new THREE.Color(theme[face]);
+      materials.Glyphs[face].color.set(0.2126 * r + 0.7152 * g + 0.0722 * b > 0.3 ? '#000000' : '#ffffff');
+    });
+  }, [materials, theme]);
+
+  // Fewer bevel segments on big cubes keep the triangle count in check
+  const bodyGeometry = useMemo(
+    () => new RoundedBoxGeometry(BOX_SIZE, BOX_SIZE, BOX_SIZE, size > 12 ? 1 : 3, finish.bevel),
+    [size, finish.bevel]
+  );
+  const stickerGeometry = useMemo(
+    () => new THREE.PlaneGeometry(finish.stickerSize, finish.stickerSize),
+    [finish.stickerSize]
+  );
+  useEffect(() => () => bodyGeometry.dispose(), [bodyGeometry]);
+  useEffect(() => () => stickerGeometry.dispose(), [stickerGeometry]);
+  const glyphGeometries = useMemo(() => createGlyphGeometries(finish.stickerSize / 0.8), [finish.stickerSize]);
+  useEffect(() => () => FACES.forEach(face => glyphGeometries[face].dispose()), [glyphGeometries]);
 
   // --- Initialization ---
-  const initialPositions = useMemo(() => {
+  const initialCubies = useMemo(() => {
     const positions = [];
-    const offset = (size - 1) / 2;
+    const [sizeX, sizeY, sizeZ] = toDims(shape);
+    const [offsetX, offsetY, offsetZ] = [layerOffset('x'), layerOffset('y'), layerOffset('z')];
     let id = 0;
 
-    for (let x = 0; x < size; x++) {
-      for (let y = 0; y < size; y++) {
-        for (let z = 0; z < size; z++) {
-          const lx = x - offset;
-          const ly = y - offset;
-          const lz = z - offset;
+    for (let x = 0; x < sizeX; x++) {
+      for (let y = 0; y < sizeY; y++) {
+        for (let z = 0; z < sizeZ; z++) {
+          const lx = x - offsetX;
+          const ly = y - offsetY;
+          const lz = z - offsetZ;
           
-          if (isSurface(lx, ly, lz, size)) {
+          if (isSurface(lx, ly, lz, shape)) {
+            // Colour (and on supercubes, twist) each outward sticker from the logical state
+            const stickers: Partial<Record<Face, Face>> = {};
+            const twists: Partial<Record<Face, number>> = {};
+            const paint = (face: Face) => {
+              const index = faceletIndexForCubie(shape, face, lx, ly, lz);
+              stickers[face] = FACES[state.facelets[index]];
+              twists[face] = state.twists?.[index] ?? 0;
+            };
+            if (lx === offsetX) paint('R');
+            if (lx === -offsetX) paint('L');
+            if (ly === offsetY) paint('U');
+            if (ly === -offsetY) paint('D');
+            if (lz === offsetZ) paint('F');
+            if (lz === -offsetZ) paint('B');
+
             positions.push({ 
               id: id++, 
               x: lx, y: ly, z: lz,
               initialX: lx, initialY: ly, initialZ: lz,
+              stickers,
+              // Instance indices of this cubie's stickers, by face in its own
+              // frame, with the marker transform on supercubes and the index
+              // into the glyph mesh of the sticker's colour
+              stickerIds: [] as { index: number; face: Face; marker?: THREE.Matrix4; glyph: number; glyphMatrix: THREE.Matrix4 }[],
+              twists,
               q: new THREE.Quaternion() 
             });
           }
         }
       }
     }
-    return positions;
-  }, [size]); 
+    let stickerCount = 0;
+    const glyphCounts = Object.fromEntries(FACES.map(face => [face, 0])) as Record<Face, number>;
+    positions.forEach(cubie => {
+      (Object.keys(cubie.stickers) as Face[]).forEach(face => cubie.stickerIds.push({
+        index: stickerCount++,
+        face,
+        ...(supercube && { marker: markerMatrix(face, cubie.twists[face]!) }),
+        glyph: glyphCounts[cubie.stickers[face]!]++,
+        glyphMatrix: glyphMatrix(face, supercube),
+      }));
+    });
+    return { positions, glyphCounts };
+  }, [shapeKey, supercube]);
+  const { glyphCounts } = initialCubies;
+  const initialPositions = initialCubies.positions;
 
   const cubiesRef = useRef(initialPositions);
-  const cubieObjectsRef = useRef<{ [id: number]: THREE.Object3D }>({});
+  const bodiesRef = useRef<THREE.InstancedMesh>(null);
+  const stickersRef = useRef<THREE.InstancedMesh>(null);
+  const markersRef = useRef<THREE.InstancedMesh>(null);
+  // Face pattern glyphs, one mesh per sticker colour
+  const glyphsRef = useRef<Partial<Record<Face, THREE.InstancedMesh | null>>>({});
+  const stickerCount = faceletCount(shape);
 
   if (cubiesRef.current.length !== initialPositions.length) {
       cubiesRef.current = initialPositions;
-      cubieObjectsRef.current = {};
   }
 
+  // Writes a cubie's body and sticker matrices, optionally turned by `turn`
+  // (the rotation of a layer in motion)
+  const writeCubie = (cubie: typeof cubiesRef.current[number], turn?: THREE.Matrix4) => {
+    const bodies = bodiesRef.current;
+    const stickerMesh = stickersRef.current;
+    const markerMesh = markersRef.current;
+    if (!bodies || !stickerMesh) return;
+    cubieInstance.position.set(cubie.x, cubie.y, cubie.z);
+    cubieInstance.quaternion.copy(cubie.q);
+    cubieInstance.updateMatrix();
+    const matrix = turn ? turnedMatrix.multiplyMatrices(turn, cubieInstance.matrix) : cubieInstance.matrix;
+    setInstanceMatrix(bodies, cubie.id, matrix);
+    cubie.stickerIds.forEach(({ index, face, marker, glyph, glyphMatrix }) => {
+      setInstanceMatrix(stickerMesh, index, stickerMatrix.multiplyMatrices(matrix, STICKER_MATRICES[face]));
+      if (markerMesh && marker) setInstanceMatrix(markerMesh, index, stickerMatrix.multiplyMatrices(matrix, marker));
+      const glyphMesh = glyphsRef.current[cubie.stickers[face]!];
+      if (glyphMesh) setInstanceMatrix(glyphMesh, glyph, stickerMatrix.multiplyMatrices(matrix, glyphMatrix));
+    });
+  };
+
+  const flushInstances = () => {
+    flushInstanceMatrix(bodiesRef.current);
+    flushInstanceMatrix(stickersRef.current);
+    flushInstanceMatrix(markersRef.current);
+    FACES.forEach(face => flushInstanceMatrix(glyphsRef.current[face]));
+  };
+
+  // Glyph meshes mount with the face pattern setting, so it rewrites too
+  useLayoutEffect(() => {
+    cubiesRef.current.forEach(cubie => writeCubie(cubie));
+    flushInstances();
+  }, [initialPositions, facePatterns]);
+
+  // Per-instance sticker colours; a theme change only rewrites this buffer
+  useLayoutEffect(() => {
+    const stickerMesh = stickersRef.current;
+    if (!stickerMesh) return;
+    const color = new THREE.Color();
+    cubiesRef.current.forEach(cubie => {
+      cubie.stickerIds.forEach(({ index, face }) => {
+        stickerMesh.setColorAt(index, color.set(theme[cubie.stickers[face]!]));
+      });
+    });
+    if (stickerMesh.instanceColor) stickerMesh.instanceColor.needsUpdate = true;
+  }, [theme, initialPositions]);
+
+  // Per-instance body side colours: the core colour, or on stickerless cubes
+  // the colour each sticker would have had
+  useLayoutEffect(() => {
+    const count = cubiesRef.current.length;
+    const attributes = ['faceColorsA', 'faceColorsB'].map(name => {
+      let attribute = bodyGeometry.getAttribute(name);
+      if (!attribute || attribute.count !== count) {
+        attribute = new THREE.InstancedBufferAttribute(new Float32Array(3 * count), 3);
+        bodyGeometry.setAttribute(name, attribute);
+      }
+      return attribute as THREE.InstancedBufferAttribute;
+    });
+    const color = new THREE.Color();
+    cubiesRef.current.forEach(cubie => {
+      BODY_FACES.forEach((face, k) => {
+        const sticker = cubie.stickers[face];
+        const hex = color.set(finish.stickerless && sticker ? theme[sticker] : theme.core).getHex();
+        attributes[Math.floor(k / 3)].array[3 * cubie.id + (k % 3)] = hex;
+      });
+    });
+    attributes.forEach(attribute => { attribute.needsUpdate = true; });
+  }, [theme, finish.stickerless, bodyGeometry, initialPositions]);
+
   // Animation State
   const [isAnimating, setIsAnimating] = useState(false);
   const animationProgress = useRef(0);
@@ -118,66 +434,60 @@ const RubiksCube: React.FC<RubiksCubeProps> = ({
 
   // Interaction State
   const [hoveredId, setHoveredId] = useState<number | null>(null);
-  const [hoveredFace, setHoveredFace] = useState<string | null>(null);
+  const [hoveredFace, setHoveredFace] = useState<Face | null>(null);
 
-  // Selection State for Arrow UI
+  // Selection State for Arrow UI. The face is the world face the sticker
+  // points out of, which is what the highlight and arrows are placed by.
   const [selection, setSelection] = useState<{
     id: number;
-    face: string;
+    face: Face;
     normal: THREE.Vector3;
     cubiePos: { x: number, y: number, z: number };
   } | null>(null);
 
   // --- Hint Logic: Auto-select when activeHint changes ---
-  useEffect(() => {
-    if (activeHint && cubiesRef.current.length > 0) {
-      const offset = (size - 1) / 2;
-      const targetLayerCoord = activeHint.layer - offset;
-      
-      // Find a cubie that is part of the layer to rotate AND is on a visible face
-      // For X and Y axis rotations, the Front face (F) is usually best.
-      // For Z axis rotation, the Up face (U) is usually best.
-      
-      let preferredFace = 'F';
-      if (activeHint.axis === 'z') preferredFace = 'U';
-
-      const candidate = cubiesRef.current.find(c => {
-        // Must be on the target layer
-        let onLayer = false;
-        if (activeHint.axis === 'x' && Math.abs(c.x - targetLayerCoord) < 0.1) onLayer = true;
-        if (activeHint.axis === 'y' && Math.abs(c.y - targetLayerCoord) < 0.1) onLayer = true;
-        if (activeHint.axis === 'z' && Math.abs(c.z - targetLayerCoord) < 0.1) onLayer = true;
-        if (!onLayer) return false;
-
-        // Must be on the preferred face
-        if (preferredFace === 'F' && Math.abs(c.z - offset) < 0.1) return true;
-        if (preferredFace === 'U' && Math.abs(c.y - offset) < 0.1) return true;
-        
-        return false;
-      });
+  // The arrow that makes the hinted turn for the current view. It is
+  // tracked every frame because orbiting changes which arrow that is.
+  const [hintArrow, setHintArrow] = useState<ArrowDir | null>(null);
+  const orbitTargetRef = useRef<THREE.Vector3 | null>(null);
+  // The hint and camera position of the last full sticker scan for the hint
+  const hintScanRef = useRef<{ hint: Move; camera: THREE.Vector3 } | null>(null);
 
-      if (candidate && cubieObjectsRef.current[candidate.id]) {
-        const obj = cubieObjectsRef.current[candidate.id];
-        
-        let normalVector = new THREE.Vector3(0, 0, 1); // Default F
-        if (preferredFace === 'U') normalVector.set(0, 1, 0);
-
-        // Apply object rotation to normal
-        const worldNormal = normalVector.applyQuaternion(obj.quaternion).round();
-
-        setSelection({
-          id: candidate.id,
-          face: preferredFace,
-          normal: worldNormal,
-          cubiePos: { ...candidate }
-        });
-      }
-    } else {
+  useEffect(() => {
+    if (!activeHint || cubiesRef.current.length === 0) {
       // Clear selection if hint is cleared
       if (!activeHint) setSelection(null);
+      orbitTargetRef.current = null;
+      return;
+    }
+    if (autoOrbit) {
+      // View the best face for the layer from slightly above (or in front)
+      const face = hintFaces(activeHint)[0];
+      const lift = Math.abs(face.y) > 0.5 ? new THREE.Vector3(0, 0, 0.6) : new THREE.Vector3(0, 0.6, 0);
+      orbitTargetRef.current = face.clone().add(lift).normalize();
     }
+    setSelection(findHintSelection(activeHint));
   }, [activeHint, size]);
 
+  // Any press takes the camera back from the auto-orbit
+  useEffect(() => {
+    const cancel = () => { orbitTargetRef.current = null; };
+    window.addEventListener('pointerdown', cancel);
+    return () => window.removeEventListener('pointerdown', cancel);
+  }, []);
+
+    // --- Solved Detection ---
+  // Fire onSolved when the mirrored state settles into a solved cube after
+  // having been scrambled. Intermediate states inside a queued sequence are
+  // ignored so a shuffle that briefly passes through solved does not count.
+  const wasSolvedRef = useRef(isSolved(state));
+  useEffect(() => {
+    if (isAnimating || moveQueue.length > 0) return;
+    const solved = isSolved(state);
+    if (solved && !wasSolvedRef.current && onSolved) onSolved();
+    wasSolvedRef.current = solved;
+  }, [state, isAnimating, moveQueue.length]);
+
   // Reset cursor when unmounting or changing size
   useEffect(() => {
     return () => {
@@ -185,65 +495,39 @@ const RubiksCube: React.FC<RubiksCubeProps> = ({
     };
   }, [size]);
 
-  // Helper to validate if a face is actually pointing outwards in world space
-  const checkFaceOrientation = (localFace: string, object: THREE.Object3D, cx: number, cy: number, cz: number) => {
-    const limit = (size - 1) / 2;
-    const epsilon = 0.25; 
-    
-    const localNormal = new THREE.Vector3();
-    if (localFace === 'R') localNormal.set(1, 0, 0);
-    else if (localFace === 'L') localNormal.set(-1, 0, 0);
-    else if (localFace === 'U') localNormal.set(0, 1, 0);
-    else if (localFace === 'D') localNormal.set(0, -1, 0);
-    else if (localFace === 'F') localNormal.set(0, 0, 1);
-    else if (localFace === 'B') localNormal.set(0, 0, -1);
-
-    const worldNormal = localNormal.applyQuaternion(object.quaternion);
-
-    if (worldNormal.x > 0.9 && cx > limit - epsilon) return true;
-    if (worldNormal.x < -0.9 && cx < -limit + epsilon) return true;
-    if (worldNormal.y > 0.9 && cy > limit - epsilon) return true;
-    if (worldNormal.y < -0.9 && cy < -limit + epsilon) return true;
-    if (worldNormal.z > 0.9 && cz > limit - epsilon) return true;
-    if (worldNormal.z < -0.9 && cz < -limit + epsilon) return true;
-
-    return false;
-  };
-
   // --- Interaction Handlers ---
 
-  const handlePointerMove = (e: ThreeEvent<PointerEvent>, id: number) => {
+  // The outward-facing sticker under the pointer and its world normal, or
+  // null when the ray slipped between cubies and hit a hidden face. Events
+  // come from the body mesh, so the cubie is the hit instance.
+  const pickFace = (e: ThreeEvent<PointerEvent>) => {
+    const cubieData = e.instanceId === undefined ? undefined : cubiesRef.current[e.instanceId];
+    if (!cubieData || !groupRef.current) return null;
+
+    const localPoint = groupRef.current.worldToLocal(e.point.clone()).sub(new THREE.Vector3(cubieData.x, cubieData.y, cubieData.z));
+    const axis = (['x', 'y', 'z'] as Axis[]).reduce((a, b) => (Math.abs(localPoint[b]) > Math.abs(localPoint[a]) ? b : a));
+    const sign = Math.sign(localPoint[axis]);
+    if (Math.abs(cubieData[axis] * sign - layerOffset(axis)) > 0.25) return null;
+
+    const normal = axisVector(axis).multiplyScalar(sign);
+    return { id: cubieData.id, face: faceFromNormal([normal.x, normal.y, normal.z]), normal, cubieData };
+  };
+
+  const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
     if (e.pointerType === 'touch') return;
     if (isAnimating || moveQueue.length > 0 || activeHint) return; // Disable hover during hint
     
     e.stopPropagation();
-    
-    const object = cubieObjectsRef.current[id];
-    const cubieData = cubiesRef.current.find(c => c.id === id);
-    if (!object || !cubieData) return;
-
-    const localPoint = object.worldToLocal(e.point.clone());
-    const absX = Math.abs(localPoint.x);
-    const absY = Math.abs(localPoint.y);
-    const absZ = Math.abs(localPoint.z);
-
-    let face = '';
-    if (absX > absY && absX > absZ) face = localPoint.x > 0 ? 'R' : 'L';
-    else if (absY > absX && absY > absZ) face = localPoint.y > 0 ? 'U' : 'D';
-    else face = localPoint.z > 0 ? 'F' : 'B';
-
-    if (!checkFaceOrientation(face, object, cubieData.x, cubieData.y, cubieData.z)) {
-        if (hoveredId === id) {
-            setHoveredId(null);
-            setHoveredFace(null);
-            document.body.style.cursor = 'default';
-        }
+
+    const picked = pickFace(e);
+    if (!picked) {
+        if (hoveredId !== null) handlePointerOut();
         return;
     }
 
-    if (hoveredId !== id || hoveredFace !== face) {
-        setHoveredId(id);
-        setHoveredFace(face);
+    if (hoveredId !== picked.id || hoveredFace !== picked.face) {
+        setHoveredId(picked.id);
+        setHoveredFace(picked.face);
         document.body.style.cursor = 'pointer';
     }
   };
@@ -254,49 +538,22 @@ const RubiksCube: React.FC<RubiksCubeProps> = ({
     document.body.style.cursor = 'default';
   };
 
-  const handleClick = (e: ThreeEvent<PointerEvent>, cubieId: number) => {
+  const handleClick = (e: ThreeEvent<PointerEvent>) => {
     if (isAnimating || moveQueue.length > 0 || activeHint) return; // Lock manual selection during hint
     
     e.stopPropagation(); 
-    
-    const object = cubieObjectsRef.current[cubieId];
-    const cubieData = cubiesRef.current.find(c => c.id === cubieId);
-    if (!object || !cubieData) return;
-
-    const localPoint = object.worldToLocal(e.point.clone());
-    const absX = Math.abs(localPoint.x);
-    const absY = Math.abs(localPoint.y);
-    const absZ = Math.abs(localPoint.z);
-    
-    let normal = new THREE.Vector3(0, 0, 0);
-    let face = '';
-
-    if (absX > absY && absX > absZ) {
-        normal.set(Math.sign(localPoint.x), 0, 0);
-        face = localPoint.x > 0 ? 'R' : 'L';
-    }
-    else if (absY > absX && absY > absZ) {
-        normal.set(0, Math.sign(localPoint.y), 0);
-        face = localPoint.y > 0 ? 'U' : 'D';
-    }
-    else {
-        normal.set(0, 0, Math.sign(localPoint.z));
-        face = localPoint.z > 0 ? 'F' : 'B';
-    }
 
-    if (!checkFaceOrientation(face, object, cubieData.x, cubieData.y, cubieData.z)) {
+    const picked = pickFace(e);
+    if (!picked) {
         setSelection(null);
         return;
     }
-
-    // Apply rotation to normal to get world space normal
-    const worldNormal = normal.clone().applyQuaternion(object.quaternion).round();
     
     setSelection({
-        id: cubieId,
-        face: face,
-        normal: worldNormal,
-        cubiePos: { ...cubieData }
+        id: picked.id,
+        face: picked.face,
+        normal: picked.normal,
+        cubiePos: { ...picked.cubieData }
     });
 
     if (onInteractionChange) onInteractionChange(true);
@@ -304,9 +561,26 @@ const RubiksCube: React.FC<RubiksCubeProps> = ({
 
   const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
     clickStartRef.current = { x: e.clientX, y: e.clientY };
+    if (isAnimating || moveQueue.length > 0 || isShaking || dragRef.current || springRef.current || carryRef.current) return;
+
+    const picked = pickFace(e);
+    if (!picked) return;
+    e.stopPropagation();
+    dragRef.current = {
+        pointerId: e.pointerId,
+        startX: e.clientX,
+        startY: e.clientY,
+        point: e.point.clone(),
+        normal: picked.normal,
+        cubiePos: { ...picked.cubieData },
+        turn: null,
+        angle: 0
+    };
+    // Orbiting would fight the drag, so it pauses until the pointer is released
+    if (setOrbitEnabled) setOrbitEnabled(false);
   };
 
-  const handlePointerUp = (e: ThreeEvent<PointerEvent>, cubieId: number) => {
+  const handlePointerUp = (e: ThreeEvent<PointerEvent>) => {
     if (!clickStartRef.current) return;
     
     const deltaX = Math.abs(e.clientX - clickStartRef.current.x);
@@ -315,13 +589,14 @@ const RubiksCube: React.FC<RubiksCubeProps> = ({
 
     // Tolerance for mobile tap (20px) to allow slight finger slips
     if (deltaX < 20 && deltaY < 20) {
-        handleClick(e, cubieId);
+        handleClick(e);
     }
   };
 
-  const handleArrowClick = (dir: 'UP' | 'DOWN' | 'LEFT' | 'RIGHT') => {
-    if (!selection || !onManualMove) return;
-
+  // The turn an arrow makes on a sticker with the given world normal, for
+  // the current camera: the arrow's on-screen direction in world space,
+  // crossed with the face normal, snapped to a cube axis
+  const arrowMove = (dir: ArrowDir, normal: THREE.Vector3, cubiePos: { x: number, y: number, z: number }): Move => {
     // Calculate Camera Vectors
     const viewDir = new THREE.Vector3();
     camera.getWorldDirection(viewDir);
@@ -338,7 +613,7 @@ const RubiksCube: React.FC<RubiksCubeProps> = ({
     if (dir === 'LEFT') moveVec.copy(camRight).negate();
 
     // Logic: Rotation Axis = FaceNormal x MoveDirection
-    const rotationAxisVec = new THREE.Vector3().crossVectors(selection.normal, moveVec);
+    const rotationAxisVec = new THREE.Vector3().crossVectors(normal, moveVec);
     
     // Snap to nearest cardinal axis
     let axis: 'x' | 'y' | 'z' = 'x';
@@ -349,78 +624,295 @@ const RubiksCube: React.FC<RubiksCubeProps> = ({
 
     const sign = Math.sign(rotationAxisVec[axis]) || 1;
 
-    const offset = (size - 1) / 2;
-    let layerIndex = 0;
-    if (axis === 'x') layerIndex = Math.round(selection.cubiePos.x + offset);
-    if (axis === 'y') layerIndex = Math.round(selection.cubiePos.y + offset);
-    if (axis === 'z') layerIndex = Math.round(selection.cubiePos.z + offset);
+    // Axes that cannot turn a quarter (on cuboids) turn half way instead
+    const layer = Math.round(cubiePos[axis] + layerOffset(axis));
+    return createMove(axis, layer, layer, sign as 1 | -1, canQuarterTurn(shape, axis) ? 1 : 2);
+  };
+
+  // The reverse: which arrow on this sticker makes exactly the hinted turn,
+  // if any
+  const arrowForHint = (hint: Move, normal: THREE.Vector3, cubiePos: { x: number, y: number, z: number }) =>
+    ARROW_DIRS.find(dir => movesEqual(arrowMove(dir, normal, cubiePos), hint)) ?? null;
+
+  // How squarely a sticker faces the camera, from -1 to 1
+  const facingCamera = (cubieId: number, normal: THREE.Vector3) => {
+    const cubie = cubiesRef.current[cubieId];
+    if (!cubie || !groupRef.current) return -1;
+    const sticker = groupRef.current.localToWorld(new THREE.Vector3(cubie.x, cubie.y, cubie.z)).addScaledVector(normal, 0.5 * displayScale);
+    return camera.position.clone().sub(sticker).normalize().dot(normal);
+  };
 
-    onManualMove({
-        axis,
-        layer: layerIndex,
-        direction: sign as 1 | -1
+  // Faces that can show a turn about the hint's axis, most visible first
+  const hintFaces = (hint: Move) =>
+    (['x', 'y', 'z'] as Axis[])
+      .filter(a => a !== hint.axis)
+      .flatMap(a => [axisVector(a), axisVector(a).negate()])
+      .sort((a, b) => b.dot(camera.position) - a.dot(camera.position));
+
+  // Picks the sticker to hang the hint arrows on: on the hinted layer, on a
+  // face the camera can see, with an arrow for the turn, preferring faces
+  // that point at the camera and stickers near the middle of the face
+  const findHintSelection = (hint: Move) => {
+    const targetLayerCoord = hint.layer - layerOffset(hint.axis);
+    let best: NonNullable<typeof selection> | null = null;
+    let bestScore = -Infinity;
+
+    hintFaces(hint).forEach(normal => {
+      const faceAxis = (['x', 'y', 'z'] as Axis[]).find(a => Math.abs(normal[a]) > 0.5)!;
+      cubiesRef.current.forEach(c => {
+        if (Math.abs(c[hint.axis] - targetLayerCoord) > 0.1) return;
+        if (Math.abs(c[faceAxis] * normal[faceAxis] - layerOffset(faceAxis)) > 0.1) return;
+        const facing = facingCamera(c.id, normal);
+        if (facing < MIN_HINT_FACING || !arrowForHint(hint, normal, c)) return;
+        const otherAxis = (['x', 'y', 'z'] as Axis[]).find(a => a !== hint.axis && a !== faceAxis)!;
+        const score = facing * size - Math.abs(c[otherAxis]);
+        if (score <= bestScore) return;
+        best = { id: c.id, face: faceFromNormal([normal.x, normal.y, normal.z]), normal: normal.clone(), cubiePos: { ...c } };
+        bestScore = score;
+      });
     });
+    return best as NonNullable<typeof selection> | null;
+  };
+
+  const handleArrowClick = (dir: ArrowDir) => {
+    if (!selection || !onManualMove) return;
+
+    onManualMove(arrowMove(dir, selection.normal, selection.cubiePos));
 
     // Deselect after move to require new selection for next move
     setSelection(null);
     if (onInteractionChange) onInteractionChange(false);
   };
 
-  // --- Helper: Robust Snapping ---
-  const snapTransform = (obj: THREE.Object3D) => {
-    const snap = (val: number) => {
-        const epsilon = 0.001;
-        if (size % 2 === 0) {
-            return Math.round(val - 0.5 + epsilon) + 0.5;
-        } else {
-            return Math.round(val + epsilon);
+  // --- Drag-to-turn ---
+  // A press on a sticker turns into a drag once the pointer has travelled
+  // DRAG_THRESHOLD pixels. The layer then follows the pointer and on release
+  // either springs back or is reported as a quarter or half turn, whose
+  // animation picks up from the angle the layer was released at.
+  const dragRef = useRef<{
+    pointerId: number;
+    startX: number;
+    startY: number;
+    point: THREE.Vector3;
+    normal: THREE.Vector3;
+    cubiePos: { x: number, y: number, z: number };
+    turn: { axis: Axis; layer: number; sign: number; screenDir: { x: number, y: number } } | null;
+    angle: number;
+  } | null>(null);
+  const springRef = useRef<{ axis: Axis; angle: number } | null>(null);
+  const carryRef = useRef<{ axis: Axis; layer: number; angle: number; frames: number } | null>(null);
+
+  // Latest props for the window listeners, which are registered once
+  const latestRef = useRef({ onManualMove, setOrbitEnabled, onInteractionChange, isBusy: false });
+  latestRef.current = { onManualMove, setOrbitEnabled, onInteractionChange, isBusy: isAnimating || moveQueue.length > 0 || isShaking };
+
+  const toScreen = (point: THREE.Vector3) => {
+    const ndc = point.clone().project(camera);
+    return { x: (ndc.x + 1) / 2 * gl.domElement.clientWidth, y: (1 - ndc.y) / 2 * gl.domElement.clientHeight };
+  };
+
+  // Picks the layer whose on-screen sweep best matches the drag: of the two
+  // cube axes lying in the touched face, the one the pointer moved along
+  const chooseTurn = (drag: NonNullable<typeof dragRef.current>, dx: number, dy: number) => {
+    const start = toScreen(drag.point);
+    const candidates = (['x', 'y', 'z'] as Axis[])
+      .filter(a => Math.abs(drag.normal[a]) < 0.5)
+      .map(a => {
+        const end = toScreen(drag.point.clone().add(axisVector(a).multiplyScalar(displayScale)));
+        const sx = end.x - start.x;
+        const sy = end.y - start.y;
+        const length = Math.hypot(sx, sy) || 1;
+        return { moveAxis: a, screenDir: { x: sx / length, y: sy / length } };
+      });
+    const best = candidates.reduce((a, b) =>
+      Math.abs(dx * a.screenDir.x + dy * a.screenDir.y) >= Math.abs(dx * b.screenDir.x + dy * b.screenDir.y) ? a : b
+    );
+
+    // Rotation axis = FaceNormal x MoveDirection, as for the arrow buttons
+    const rotationAxisVec = new THREE.Vector3().crossVectors(drag.normal, axisVector(best.moveAxis));
+    const axis = (['x', 'y', 'z'] as Axis[]).find(a => Math.abs(rotationAxisVec[a]) > 0.5)!;
+    return {
+      axis,
+      layer: Math.round(drag.cubiePos[axis] + layerOffset(axis)),
+      sign: Math.sign(rotationAxisVec[axis]),
+      screenDir: best.screenDir
+    };
+  };
+
+  // The cubies of the layer being turned. Turning only rewrites their
+  // instance matrices; the cubie data catches up when the turn finishes.
+  const activeLayerRef = useRef<{ axis: Axis; ids: number[] } | null>(null);
+
+  // Picks up the cubies of layers `layer` to `toLayer` for turning
+  const attachLayers = (axis: Axis, layer: number, toLayer: number) => {
+    const low = layer - layerOffset(axis) - 0.25;
+    const high = toLayer - layerOffset(axis) + 0.25;
+    const ids = cubiesRef.current.filter(cubie => cubie[axis] > low && cubie[axis] < high).map(cubie => cubie.id);
+    activeLayerRef.current = ids.length > 0 ? { axis, ids } : null;
+    return ids.length;
+  };
+
+  const setLayerAngle = (angle: number) => {
+    const layer = activeLayerRef.current;
+    if (!layer) return;
+    const turn = new THREE.Matrix4().makeRotationAxis(axisVector(layer.axis), angle);
+    layer.ids.forEach(id => writeCubie(cubiesRef.current[id], turn));
+    flushInstances();
+  };
+
+  // Puts a partly turned layer back where it started
+  const releaseLayer = () => {
+    setLayerAngle(0);
+    activeLayerRef.current = null;
+  };
+
+  useEffect(() => {
+    const handleMove = (e: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || e.pointerId !== drag.pointerId) return;
+      const dx = e.clientX - drag.startX;
+      const dy = e.clientY - drag.startY;
+
+      if (!drag.turn) {
+        if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+        if (latestRef.current.isBusy) {
+          dragRef.current = null;
+          return;
         }
+        drag.turn = chooseTurn(drag, dx, dy);
+        attachLayers(drag.turn.axis, drag.turn.layer, drag.turn.layer);
+        // No longer a tap
+        clickStartRef.current = null;
+        setSelection(null);
+        latestRef.current.onInteractionChange?.(true);
+      }
+
+      const along = dx * drag.turn.screenDir.x + dy * drag.turn.screenDir.y;
+      drag.angle = THREE.MathUtils.clamp(drag.turn.sign * along / QUARTER_TURN_PIXELS * (Math.PI / 2), -Math.PI, Math.PI);
+      setLayerAngle(drag.angle);
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || e.pointerId !== drag.pointerId) return;
+      dragRef.current = null;
+      const { onManualMove, setOrbitEnabled, onInteractionChange, isBusy } = latestRef.current;
+      if (setOrbitEnabled) setOrbitEnabled(true);
+      if (!drag.turn) return;
+      onInteractionChange?.(false);
+
+      const { axis, layer } = drag.turn;
+      // Axes restricted to half turns snap to 0 or 180 degrees
+      const quarters = canQuarterTurn(shape, axis)
+        ? Math.round(drag.angle / (Math.PI / 2))
+        : 2 * Math.round(drag.angle / Math.PI);
+      if (quarters === 0 || isBusy || !onManualMove) {
+        springRef.current = { axis, angle: drag.angle };
+        return;
+      }
+      carryRef.current = { axis, layer, angle: drag.angle, frames: 0 };
+      onManualMove(createMove(axis, layer, layer, Math.sign(quarters) as 1 | -1, Math.abs(quarters) as 1 | 2));
     };
-    obj.position.x = snap(obj.position.x);
-    obj.position.y = snap(obj.position.y);
-    obj.position.z = snap(obj.position.z);
-
-    obj.updateMatrix();
-    const euler = new THREE.Euler().setFromQuaternion(obj.quaternion);
-    const snapAngle = (angle: number) => Math.round(angle / (Math.PI / 2)) * (Math.PI / 2);
-    obj.rotation.set(snapAngle(euler.x), snapAngle(euler.y), snapAngle(euler.z));
-    obj.updateMatrix();
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+  }, [shapeKey, camera, gl]);
+
+  // --- Helper: Robust Snapping ---
+  const snap = (val: number, axis: Axis) => {
+    const epsilon = 0.001;
+    if (layerCount(shape, axis) % 2 === 0) {
+        return Math.round(val - 0.5 + epsilon) + 0.5;
+    } else {
+        return Math.round(val + epsilon);
+    }
+  };
+
+  // Applies a finished turn to the cubie data, snapping away float drift:
+  // positions to the grid and orientations to whole quarter turns
+  const turnCubie = (cubie: typeof cubiesRef.current[number], rotation: THREE.Quaternion) => {
+    const position = new THREE.Vector3(cubie.x, cubie.y, cubie.z).applyQuaternion(rotation);
+    cubie.x = snap(position.x, 'x');
+    cubie.y = snap(position.y, 'y');
+    cubie.z = snap(position.z, 'z');
+    const basis = new THREE.Matrix4().makeRotationFromQuaternion(cubie.q.premultiply(rotation));
+    basis.elements.forEach((value, i) => { basis.elements[i] = Math.round(value); });
+    cubie.q.setFromRotationMatrix(basis);
   };
 
   // --- Animation Loop ---
   useFrame((state, delta) => {
-    if (isAnimating && currentMove.current && rotatingGroup.current) {
+    if (activeHint && orbitTargetRef.current) {
+      // Swing round the cube at a constant distance until the view matches
+      const distance = camera.position.length();
+      const current = camera.position.clone().normalize();
+      if (current.angleTo(orbitTargetRef.current) < 0.01) {
+        orbitTargetRef.current = null;
+      } else {
+        current.lerp(orbitTargetRef.current, 1 - Math.exp(-delta * AUTO_ORBIT_SPEED)).normalize();
+        camera.position.copy(current.multiplyScalar(distance));
+        camera.lookAt(0, 0, 0);
+      }
+    }
+
+    if (activeHint && !isAnimating && moveQueue.length === 0) {
+      // Re-pick the sticker when orbiting hides it or leaves it without a
+      // matching arrow, and keep the highlighted arrow in step with the view.
+      // The scan covers every cubie, so it runs once per hint and view.
+      let arrow = selection ? arrowForHint(activeHint, selection.normal, selection.cubiePos) : null;
+      if (!selection || !arrow || facingCamera(selection.id, selection.normal) < MIN_HINT_FACING) {
+        arrow = null;
+        const scan = hintScanRef.current;
+        if (scan?.hint !== activeHint || !scan.camera.equals(camera.position)) {
+          hintScanRef.current = { hint: activeHint, camera: camera.position.clone() };
+          const next = findHintSelection(activeHint);
+          if (next && (next.id !== selection?.id || !next.normal.equals(selection.normal))) setSelection(next);
+          arrow = next ? arrowForHint(activeHint, next.normal, next.cubiePos) : null;
+        }
+      }
+      if (arrow !== hintArrow) setHintArrow(arrow);
+    }
+
+    if (springRef.current) {
+      const spring = springRef.current;
+      const step = delta * SPRING_SPEED;
+      spring.angle = Math.abs(spring.angle) <= step ? 0 : spring.angle - Math.sign(spring.angle) * step;
+      setLayerAngle(spring.angle);
+      if (spring.angle === 0) {
+        releaseLayer();
+        springRef.current = null;
+      }
+      return;
+    }
+
+    // A released drag whose turns were not queued (the app was busy) springs back
+    if (carryRef.current && !isAnimating && moveQueue.length === 0 && ++carryRef.current.frames > 2) {
+      springRef.current = { axis: carryRef.current.axis, angle: carryRef.current.angle };
+      carryRef.current = null;
+      return;
+    }
+
+    if (isAnimating && currentMove.current) {
       const animSpeed = isShaking ? speed : 6; 
       animationProgress.current += delta * animSpeed;
       
-      const targetRotation = (Math.PI / 2) * currentMove.current.direction;
-      let currentRot = 0;
-
-      if (animationProgress.current >= Math.PI / 2) {
-        currentRot = targetRotation;
-        
-        const axisVector = new THREE.Vector3(
-            currentMove.current.axis === 'x' ? 1 : 0,
-            currentMove.current.axis === 'y' ? 1 : 0,
-            currentMove.current.axis === 'z' ? 1 : 0
-        );
-
-        rotatingGroup.current.setRotationFromAxisAngle(axisVector, currentRot);
-        rotatingGroup.current.updateMatrixWorld(); 
+      // A half turn is animated as one motion through 180 degrees
+      const totalRotation = (Math.PI / 2) * moveAmount(currentMove.current);
+      if (animationProgress.current >= totalRotation) {
         finishMove();
       } else {
-        currentRot = animationProgress.current * currentMove.current.direction;
-        const axisVector = new THREE.Vector3(
-            currentMove.current.axis === 'x' ? 1 : 0,
-            currentMove.current.axis === 'y' ? 1 : 0,
-            currentMove.current.axis === 'z' ? 1 : 0
-        );
-        rotatingGroup.current.setRotationFromAxisAngle(axisVector, currentRot);
+        setLayerAngle(animationProgress.current * currentMove.current.direction);
       }
       return;
     }
 
-    if (!isAnimating && moveQueue.length > 0) {
+    if (!isAnimating && moveQueue.length > 0 && !dragRef.current?.turn) {
       startMove(moveQueue[0]);
     }
   });
@@ -430,59 +922,43 @@ const RubiksCube: React.FC<RubiksCubeProps> = ({
     setIsAnimating(true);
     animationProgress.current = 0;
 
-    const offset = (size - 1) / 2;
-    const coordinateValue = move.layer - offset; 
-    
-    if(rotatingGroup.current) {
-      rotatingGroup.current.rotation.set(0,0,0);
-      rotatingGroup.current.position.set(0,0,0);
-      rotatingGroup.current.scale.set(1,1,1);
-      rotatingGroup.current.updateMatrixWorld();
+    // A layer released mid-drag has already turned part of the way
+    const carry = carryRef.current;
+    const carried = carry && carry.axis === move.axis && carry.layer === move.layer && moveLastLayer(move) === move.layer
+      ? carry.angle * move.direction
+      : 0;
+    carryRef.current = null;
+    const stillAttached = !!activeLayerRef.current;
+    if (stillAttached && carried <= 0) releaseLayer();
+
+    const attachedCount = carried > 0 && stillAttached
+      ? activeLayerRef.current!.ids.length
+      : attachLayers(move.axis, move.layer, moveLastLayer(move));
+
+    if (carried > 0) {
+      animationProgress.current = Math.min(carried, (Math.PI / 2) * moveAmount(move));
+      setLayerAngle(animationProgress.current * move.direction);
     }
 
-    let attachedCount = 0;
-
-    cubiesRef.current.forEach(cubie => {
-      let inSlice = false;
-      if (move.axis === 'x' && Math.abs(cubie.x - coordinateValue) < 0.25) inSlice = true;
-      if (move.axis === 'y' && Math.abs(cubie.y - coordinateValue) < 0.25) inSlice = true;
-      if (move.axis === 'z' && Math.abs(cubie.z - coordinateValue) < 0.25) inSlice = true;
-
-      if (inSlice) {
-        const obj = cubieObjectsRef.current[cubie.id];
-        if (obj && rotatingGroup.current) {
-          rotatingGroup.current.attach(obj);
-          attachedCount++;
-        }
-      }
-    });
-
     if (attachedCount === 0) {
         setIsAnimating(false);
         currentMove.current = null;
-        onMoveComplete();
+        onMoveComplete(move);
     }
   };
 
   const finishMove = () => {
-    if (!currentMove.current || !rotatingGroup.current || !groupRef.current) return;
-
-    const children = [...rotatingGroup.current.children];
-    
-    children.forEach(child => {
-      groupRef.current?.attach(child);
-      snapTransform(child);
-    });
-
-    cubiesRef.current.forEach(cubie => {
-      const obj = cubieObjectsRef.current[cubie.id];
-      if (obj) {
-        cubie.x = obj.position.x;
-        cubie.y = obj.position.y;
-        cubie.z = obj.position.z;
-        cubie.q.copy(obj.quaternion);
-      }
+    if (!currentMove.current) return;
+
+    const move = currentMove.current;
+    const rotation = new THREE.Quaternion().setFromAxisAngle(axisVector(move.axis), (Math.PI / 2) * moveAmount(move) * move.direction);
+    activeLayerRef.current?.ids.forEach(id => {
+      const cubie = cubiesRef.current[id];
+      turnCubie(cubie, rotation);
+      writeCubie(cubie);
     });
+    activeLayerRef.current = null;
+    flushInstances();
 
     // Update selection pos if valid
     if (selection) {
@@ -492,12 +968,9 @@ const RubiksCube: React.FC<RubiksCubeProps> = ({
         }
     }
 
-    rotatingGroup.current.rotation.set(0,0,0);
-    rotatingGroup.current.updateMatrix();
-    
     setIsAnimating(false);
     currentMove.current = null;
-    onMoveComplete();
+    onMoveComplete(move);
   };
 
   const offset = (size - 1) / 2;
@@ -506,49 +979,15 @@ const RubiksCube: React.FC<RubiksCubeProps> = ({
   // Determine hint state
   const isHintActive = !!activeHint && !!selection;
   
-  // Logic for arrow visibility during hint:
-  // X-axis: Up/Down arrows
-  // Y-axis: Left/Right arrows
-  // Z-axis (on U face): Left/Right arrows
-  const showUpDown = !isHintActive || (activeHint?.axis === 'x');
-  const showLeftRight = !isHintActive || (activeHint?.axis === 'y' || activeHint?.axis === 'z');
-
-  // Logic for arrow highlighting (which arrow is correct?)
-  // This requires mapping the visual arrow to the axis/direction
-  const isCorrectArrow = (dir: 'UP' | 'DOWN' | 'LEFT' | 'RIGHT') => {
-      if (!isHintActive || !activeHint) return false;
-      const d = activeHint.direction;
-      const a = activeHint.axis;
-      
-      // Mapping based on standard view assumptions
-      // X-Axis (Vertical Slice) on Front Face:
-      // Dir 1 (X+) -> DOWN visual
-      // Dir -1 (X-) -> UP visual
-      if (a === 'x') {
-         if (d === 1 && dir === 'DOWN') return true;
-         if (d === -1 && dir === 'UP') return true;
-      }
-
-      // Y-Axis (Horizontal Slice) on Front Face:
-      // Dir 1 (Y+) -> RIGHT visual
-      // Dir -1 (Y-) -> LEFT visual
-      if (a === 'y') {
-          if (d === 1 && dir === 'RIGHT') return true;
-          if (d === -1 && dir === 'LEFT') return true;
-      }
-
-      // Z-Axis (Depth Slice) on UP Face:
-      // Dir 1 (Z+) -> LEFT visual
-      // Dir -1 (Z-) -> RIGHT visual
-      if (a === 'z') {
-          if (d === 1 && dir === 'LEFT') return true;
-          if (d === -1 && dir === 'RIGHT') return true;
-      }
+  // During a hint only the arrow pair that turns the hinted layer shows,
+  // with the one making the hinted turn highlighted
+  const hintVertical = hintArrow === 'UP' || hintArrow === 'DOWN';
+  const showUpDown = !isHintActive || hintVertical;
+  const showLeftRight = !isHintActive || (!!hintArrow && !hintVertical);
 
-      return false;
-  };
+  const isCorrectArrow = (dir: ArrowDir) => isHintActive && dir === hintArrow;
   
-  const getArrowClass = (dir: 'UP' | 'DOWN' | 'LEFT' | 'RIGHT', isVisible: boolean) => {
+  const getArrowClass = (dir: ArrowDir, isVisible: boolean) => {
     if (!isVisible) return "hidden";
     
     const isCorrect = isCorrectArrow(dir);
@@ -569,6 +1008,17 @@ const RubiksCube: React.FC<RubiksCubeProps> = ({
     return "bg-white/90 text-black hover:bg-white hover:scale-110 active:bg-indigo-500 active:text-white transition p-2 rounded-full shadow-lg flex items-center justify-center";
   };
 
+  // The sticker to highlight: the selected one, otherwise the hovered one
+  const activeId = selection ? selection.id : hoveredId;
+  const activeFace = selection ? selection.face : hoveredFace;
+  const activeCubie = activeId === null ? null : cubiesRef.current[activeId];
+  const activePosition = (distance: number): [number, number, number] | null => {
+    if (!activeCubie || !activeFace) return null;
+    const n = faceNormal(activeFace);
+    return [activeCubie.x + n.x * distance, activeCubie.y + n.y * distance, activeCubie.z + n.z * distance];
+  };
+  const highlightPosition = activePosition(HIGHLIGHT_OFFSET);
+
   return (
     <group 
         ref={groupRef} 
@@ -584,132 +1034,103 @@ const RubiksCube: React.FC<RubiksCubeProps> = ({
             document.body.style.cursor = 'default'; 
         }}
     >
-      <group ref={rotatingGroup} />
-      
-      {cubiesRef.current.map((cubie) => {
-        const isActive = {
-          R: cubie.initialX === offset,
-          L: cubie.initialX === -offset,
-          U: cubie.initialY === offset,
-          D: cubie.initialY === -offset,
-          F: cubie.initialZ === offset,
-          B: cubie.initialZ === -offset,
-        };
-        
-        const isHovered = hoveredId === cubie.id;
-        const isSelected = selection?.id === cubie.id;
-        
-        const activeFace = isSelected ? selection?.face : (isHovered ? hoveredFace : null);
-        
-        return (
-          <group
-            key={cubie.id}
-            ref={(el) => { if (el) cubieObjectsRef.current[cubie.id] = el; }}
-            position={[cubie.x, cubie.y, cubie.z]}
-            quaternion={cubie.q}
-            onPointerDown={handlePointerDown}
-            onPointerUp={(e) => handlePointerUp(e, cubie.id)}
-            onPointerMove={(e) => handlePointerMove(e, cubie.id)}
-            onPointerOut={handlePointerOut}
-          >
-            <RoundedBox 
-              args={[BOX_SIZE, BOX_SIZE, BOX_SIZE]} 
-              radius={BEVEL_RADIUS} 
-              smoothness={4} 
-              material={materials.Plastic}
-            />
-            
-            {/* Stickers */}
-            {isActive.R && <mesh position={[STICKER_OFFSET, 0, 0]} rotation={[0, Math.PI/2, 0]} geometry={stickerGeometry} material={materials.R} />}
-            {isActive.L && <mesh position={[-STICKER_OFFSET, 0, 0]} rotation={[0, -Math.PI/2, 0]} geometry={stickerGeometry} material={materials.L} />}
-            
-            {isActive.U && <mesh position={[0, STICKER_OFFSET, 0]} rotation={[-Math.PI/2, 0, 0]} geometry={stickerGeometry} material={materials.U} />}
-            {isActive.D && <mesh position={[0, -STICKER_OFFSET, 0]} rotation={[Math.PI/2, 0, 0]} geometry={stickerGeometry} material={materials.D} />}
-            
-            {isActive.F && <mesh position={[0, 0, STICKER_OFFSET]} rotation={[0, 0, 0]} geometry={stickerGeometry} material={materials.F} />}
-            {isActive.B && <mesh position={[0, 0, -STICKER_OFFSET]} rotation={[0, Math.PI, 0]} geometry={stickerGeometry} material={materials.B} />}
-
-            {/* Face Highlight - Hover or Selection */}
-            {(isHovered || isSelected) && !isAnimating && moveQueue.length === 0 && activeFace && (
-              <>
-                {['R','L','U','D','F','B'].map(face => {
-                    if (face !== activeFace) return null;
-                    const pos: [number, number, number] = 
-                        face === 'R' ? [HIGHLIGHT_OFFSET, 0, 0] :
-                        face === 'L' ? [-HIGHLIGHT_OFFSET, 0, 0] :
-                        face === 'U' ? [0, HIGHLIGHT_OFFSET, 0] :
-                        face === 'D' ? [0, -HIGHLIGHT_OFFSET, 0] :
-                        face === 'F' ? [0, 0, HIGHLIGHT_OFFSET] : [0, 0, -HIGHLIGHT_OFFSET];
-                    const rot: [number, number, number] =
-                        face === 'R' ? [0, Math.PI/2, 0] :
-                        face === 'L' ? [0, -Math.PI/2, 0] :
-                        face === 'U' ? [-Math.PI/2, 0, 0] :
-                        face === 'D' ? [Math.PI/2, 0, 0] :
-                        face === 'F' ? [0, 0, 0] : [0, Math.PI, 0];
-                    
-                    return (
-                        <mesh key={face} raycast={() => null} position={pos} rotation={rot} geometry={stickerGeometry} material={materials.Highlight} />
-                    );
-                })}
-              </>
-            )}
-
-            {/* Controls Overlay - Only for selected cube and face */}
-            {isSelected && activeFace && (
-                <Html position={[
-                    activeFace === 'R' ? HIGHLIGHT_OFFSET : activeFace === 'L' ? -HIGHLIGHT_OFFSET : 0,
-                    activeFace === 'U' ? HIGHLIGHT_OFFSET : activeFace === 'D' ? -HIGHLIGHT_OFFSET : 0,
-                    activeFace === 'F' ? HIGHLIGHT_OFFSET : activeFace === 'B' ? -HIGHLIGHT_OFFSET : 0
-                ]} center zIndexRange={[100, 0]} distanceFactor={12}>
-                    <div className="relative w-32 h-32 flex flex-col items-center justify-center pointer-events-auto select-none">
-                        
-                        {/* Up Arrow */}
-                        <button 
-                            onPointerDown={(e) => { e.stopPropagation(); handleArrowClick('UP'); }}
-                            className={`absolute -top-10 ${getArrowClass('UP', showUpDown)}`}
-                        >
-                            <ChevronUp size={24} strokeWidth={3} />
-                        </button>
-
-                        {/* Down Arrow */}
-                        <button 
-                             onPointerDown={(e) => { e.stopPropagation(); handleArrowClick('DOWN'); }}
-                             className={`absolute -bottom-10 ${getArrowClass('DOWN', showUpDown)}`}
-                        >
-                            <ChevronDown size={24} strokeWidth={3} />
-                        </button>
-
-                        {/* Left Arrow */}
-                        <button 
-                             onPointerDown={(e) => { e.stopPropagation(); handleArrowClick('LEFT'); }}
-                             className={`absolute -left-10 ${getArrowClass('LEFT', showLeftRight)}`}
-                        >
-                            <ChevronLeft size={24} strokeWidth={3} />
-                        </button>
-
-                        {/* Right Arrow */}
-                        <button 
-                             onPointerDown={(e) => { e.stopPropagation(); handleArrowClick('RIGHT'); }}
-                             className={`absolute -right-10 ${getArrowClass('RIGHT', showLeftRight)}`}
-                        >
-                            <ChevronRight size={24} strokeWidth={3} />
-                        </button>
-                        
-                        {/* Close Button (Hide if hint is active to force them to move) */}
-                        {!isHintActive && (
-                          <button 
-                              onPointerDown={(e) => { e.stopPropagation(); setSelection(null); if (onInteractionChange) onInteractionChange(false); }}
-                              className="absolute bg-red-500/90 text-white p-1.5 rounded-full hover:bg-red-500 transition shadow-lg z-0 opacity-60 hover:opacity-100"
-                          >
-                              <X size={16} strokeWidth={3} />
-                          </button>
-                        )}
-                    </div>
-                </Html>
-            )}
-          </group>
-        );
-      })}
+      {/* Geometry is passed as a prop so a finish change swaps it in place
+          instead of rebuilding the mesh and its instance matrices */}
+      <instancedMesh
+        ref={bodiesRef}
+        args={[undefined, undefined, cubiesRef.current.length]}
+        geometry={bodyGeometry}
+        material={materials.Body}
+        frustumCulled={false}
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onPointerMove={handlePointerMove}
+        onPointerOut={handlePointerOut}
+      />
+      {/* Picking goes through the bodies, so the stickers skip raycasting */}
+      <instancedMesh
+        ref={stickersRef}
+        args={[undefined, undefined, stickerCount]}
+        geometry={stickerGeometry}
+        material={materials.Sticker}
+        visible={!finish.stickerless}
+        frustumCulled={false}
+        raycast={() => null}
+      />
+      {supercube && (
+        <instancedMesh
+          ref={markersRef}
+          args={[markerGeometry, materials.Marker, stickerCount]}
+          frustumCulled={false}
+          raycast={() => null}
+        />
+      )}
+      {facePatterns && FACES.map(face => (
+        <instancedMesh
+          key={face}
+          ref={mesh => { glyphsRef.current[face] = mesh; }}
+          args={[undefined, undefined, glyphCounts[face]]}
+          geometry={glyphGeometries[face]}
+          material={materials.Glyphs[face]}
+          frustumCulled={false}
+          raycast={() => null}
+        />
+      ))}
+
+      {/* Face Highlight - Hover or Selection */}
+      {highlightPosition && !isAnimating && moveQueue.length === 0 && (
+        <mesh raycast={() => null} position={highlightPosition} rotation={FACE_ROTATIONS[activeFace!]} geometry={stickerGeometry} material={materials.Highlight} />
+      )}
+
+      {/* Controls Overlay - Only for selected cube and face */}
+      {selection && highlightPosition && (
+          <Html position={highlightPosition} center zIndexRange={[100, 0]} distanceFactor={12}>
+          <div className="relative w-32 h-32 flex flex-col items-center justify-center pointer-events-auto select-none">
+              
+              {/* Up Arrow */}
+              <button 
+                  onPointerDown={(e) => { e.stopPropagation(); handleArrowClick('UP'); }}
+                  className={`absolute -top-10 ${getArrowClass('UP', showUpDown)}`}
+              >
+                  <ChevronUp size={24} strokeWidth={3} />
+              </button>
+
+              {/* Down Arrow */}
+              <button 
+                   onPointerDown={(e) => { e.stopPropagation(); handleArrowClick('DOWN'); }}
+                   className={`absolute -bottom-10 ${getArrowClass('DOWN', showUpDown)}`}
+              >
+                  <ChevronDown size={24} strokeWidth={3} />
+              </button>
+
+              {/* Left Arrow */}
+              <button 
+                   onPointerDown={(e) => { e.stopPropagation(); handleArrowClick('LEFT'); }}
+                   className={`absolute -left-10 ${getArrowClass('LEFT', showLeftRight)}`}
+              >
+                  <ChevronLeft size={24} strokeWidth={3} />
+              </button>
+
+              {/* Right Arrow */}
+              <button 
+                   onPointerDown={(e) => { e.stopPropagation(); handleArrowClick('RIGHT'); }}
+                   className={`absolute -right-10 ${getArrowClass('RIGHT', showLeftRight)}`}
+              >
+                  <ChevronRight size={24} strokeWidth={3} />
+              </button>
+              
+              {/* Close Button (Hide if hint is active to force them to move) */}
+              {!isHintActive && (
+                <button 
+                    onPointerDown={(e) => { e.stopPropagation(); setSelection(null); if (onInteractionChange) onInteractionChange(false); }}
+                    className="absolute bg-red-500/90 text-white p-1.5 rounded-full hover:bg-red-500 transition shadow-lg z-0 opacity-60 hover:opacity-100"
+                >
+                    <X size={16} strokeWidth={3} />
+                </button>
+              )}
+          </div>
+            </Html>
+      )}
     </group>
   );
 };
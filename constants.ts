@@ -1,8 +1,22 @@
-import { CubeTheme } from './types';
+import { CubeFinish, CubeTheme } from './types';
+import { Shape, toDims } from './lib/cubeState';
 
 export const DEFAULT_CUBE_SIZE = 10;
+export const MIN_CUBE_SIZE = 2;
+export const MAX_CUBE_SIZE = 33;
 export const ANIMATION_SPEED = 300; // ms per 90 degree turn
 
+export const DEFAULT_FINISH: CubeFinish = {
+  stickerless: false,
+  surface: 'glossy',
+  bevel: 0.06,
+  stickerSize: 0.8,
+};
+
+// Ranges the finish editor offers and imported themes are held to
+export const BEVEL_RANGE = { min: 0.01, max: 0.15 };
+export const STICKER_SIZE_RANGE = { min: 0.6, max: 0.88 };
+
 export const DEFAULT_THEME: CubeTheme = {
   U: '#ffffff', // White
   D: '#ffd500', // Yellow
@@ -16,10 +30,12 @@ export const DEFAULT_THEME: CubeTheme = {
 export const PRESET_THEMES: Record<string, CubeTheme> = {
   "Classic": DEFAULT_THEME,
   "Neon Night": {
-    U: '#ffffff', D: '#faff00', L: '#ff00ff', R: '#00ffff', F: '#39ff14', B: '#1b03a3', core: '#000000'
+    U: '#ffffff', D: '#faff00', L: '#ff00ff', R: '#00ffff', F: '#39ff14', B: '#1b03a3', core: '#000000',
+    finish: { stickerless: false, surface: 'glossy', bevel: 0.04, stickerSize: 0.86 }
   },
   "Cotton Candy": {
-    U: '#ffebf7', D: '#e0f7fa', L: '#ffb7b2', R: '#ffdac1', F: '#e2f0cb', B: '#b5ead7', core: '#2d2d2d'
+    U: '#ffebf7', D: '#e0f7fa', L: '#ffb7b2', R: '#ffdac1', F: '#e2f0cb', B: '#b5ead7', core: '#2d2d2d',
+    finish: { stickerless: true, surface: 'matte', bevel: 0.12, stickerSize: 0.8 }
   },
   "Matrix": {
     U: '#00ff00', D: '#003b00', L: '#008f11', R: '#00dd00', F: '#ccffcc', B: '#001a00', core: '#050505'
@@ -34,18 +50,19 @@ export const PRESET_THEMES: Record<string, CubeTheme> = {
     U: '#ffffff', D: '#000000', L: '#aaaaaa', R: '#555555', F: '#dddddd', B: '#222222', core: '#111111'
   },
   "Royal": {
-    U: '#F3E5F5', D: '#4A148C', L: '#CE93D8', R: '#BA68C8', F: '#AB47BC', B: '#7B1FA2', core: '#180029'
+    U: '#F3E5F5', D: '#4A148C', L: '#CE93D8', R: '#BA68C8', F: '#AB47BC', B: '#7B1FA2', core: '#180029',
+    finish: { stickerless: false, surface: 'metallic', bevel: 0.06, stickerSize: 0.8 }
   }
 };
 
 // Helper to check if a cubie is on the surface (optimization)
-export const isSurface = (x: number, y: number, z: number, size: number) => {
-  const limit = (size - 1) / 2;
+export const isSurface = (x: number, y: number, z: number, shape: Shape) => {
+  const [limitX, limitY, limitZ] = toDims(shape).map(n => (n - 1) / 2);
   // Use a small epsilon for float comparison safety, though logic usually holds for .5 steps
   const epsilon = 0.01;
   return (
-    Math.abs(Math.abs(x) - limit) < epsilon ||
-    Math.abs(Math.abs(y) - limit) < epsilon ||
-    Math.abs(Math.abs(z) - limit) < epsilon
+    Math.abs(Math.abs(x) - limitX) < epsilon ||
+    Math.abs(Math.abs(y) - limitY) < epsilon ||
+    Math.abs(Math.abs(z) - limitZ) < epsilon
   );
 };
\ No newline at end of file
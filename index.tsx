@@ -1,16 +1,30 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { SharedCube, hasShareLink, parseShareLink } from './lib/shareLink';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// A shared link is read once and then removed from the address bar, so a
+// reload resumes the saved session instead of reopening the link
+let sharedCube: SharedCube | null = null;
+let shareLinkError: string | null = null;
+if (hasShareLink(window.location.search)) {
+  try {
+    sharedCube = parseShareLink(window.location.search);
+  } catch (e) {
+    shareLinkError = e instanceof Error ? e.message : String(e);
+  }
+  window.history.replaceState(null, '', window.location.pathname + window.location.hash);
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <App sharedCube={sharedCube} shareLinkError={shareLinkError} />
   </React.StrictMode>
 );
 
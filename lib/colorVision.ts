@@ -0,0 +1,102 @@
+import { CubeTheme, ThemeColor } from '../types';
+import { THEME_KEYS, colorDifference, normalizeHex } from './themes';
+
+// Colour vision deficiencies: how a theme looks to someone with one, and
+// which faces become hard to tell apart. Simulation uses the Machado et al.
+// (2009) matrices for full-severity dichromacy, applied in linear RGB.
+
+export type ColorDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+export const COLOR_DEFICIENCIES: ColorDeficiency[] = ['protanopia', 'deuteranopia', 'tritanopia'];
+
+export const DEFICIENCY_LABELS: Record<ColorDeficiency, string> = {
+  protanopia: 'Protanopia',
+  deuteranopia: 'Deuteranopia',
+  tritanopia: 'Tritanopia',
+};
+
+export const DEFICIENCY_DESCRIPTIONS: Record<ColorDeficiency, string> = {
+  protanopia: 'red-blind',
+  deuteranopia: 'green-blind',
+  tritanopia: 'blue-blind',
+};
+
+const MATRICES: Record<ColorDeficiency, number[][]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+};
+
+// Faces closer than this under a deficiency get a warning. It is stricter
+// than MIN_FACE_DIFFERENCE because the simulation is only an approximation.
+export const MIN_SIMULATED_DIFFERENCE = 15;
+
+const STORAGE_KEY = 'hypercube-face-patterns';
+
+const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4);
+const toSrgb = (c: number) => (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055);
+
+export const simulateColor = (hex: string, deficiency: ColorDeficiency) => {
+  const rgb = [1, 3, 5].map(i => toLinear(parseInt(normalizeHex(hex).slice(i, i + 2), 16) / 255));
+  return `#${MATRICES[deficiency]
+    .map(row => row.reduce((sum, weight, i) => sum + weight * rgb[i], 0))
+    .map(c => Math.round(toSrgb(Math.min(1, Math.max(0, c))) * 255).toString(16).padStart(2, '0'))
+    .join('')}`;
+};
+
+// The theme as it looks with the deficiency, finish included
+export const simulateTheme = (theme: CubeTheme, deficiency: ColorDeficiency): CubeTheme => ({
+  ...theme,
+  ...Object.fromEntries(THEME_KEYS.map(key => [key, simulateColor(theme[key], deficiency)])),
+});
+
+export interface ColorCollision {
+  deficiency: ColorDeficiency;
+  faces: [ThemeColor, ThemeColor];
+}
+
+// Pairs of faces that look alike under each deficiency
+export const findColorCollisions = (theme: CubeTheme): ColorCollision[] => {
+  const faces = THEME_KEYS.filter(key => key !== 'core');
+  return COLOR_DEFICIENCIES.flatMap(deficiency => {
+    const seen = faces.map(face => simulateColor(theme[face], deficiency));
+    const collisions: ColorCollision[] = [];
+    for (let i = 0; i < faces.length; i++) {
+      for (let j = i + 1; j < faces.length; j++) {
+        if (colorDifference(seen[i], seen[j]) < MIN_SIMULATED_DIFFERENCE) {
+          collisions.push({ deficiency, faces: [faces[i], faces[j]] });
+        }
+      }
+    }
+    return collisions;
+  });
+};
+
+// Whether stickers carry a glyph per face, remembered across sessions
+export const loadFacePatterns = (): boolean => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === 'on';
+  } catch {
+    return false;
+  }
+};
+
+export const saveFacePatterns = (enabled: boolean) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, enabled ? 'on' : 'off');
+  } catch (e) {
+    console.warn('Could not store the face pattern setting', e);
+  }
+};
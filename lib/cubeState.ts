@@ -0,0 +1,419 @@
+import { Axis, Move } from '../types';
+
+// Headless NxN cube model.
+//
+// The state is a flat facelet array: six faces in URFDLB order, each face
+// stored row by row as seen from outside the cube (U and D with F towards the
+// viewer, the side faces with U on top). Every entry holds the index (into
+// FACES) of the face colour currently occupying that slot, so the model knows
+// nothing about three.js and can be cloned, compared and serialized cheaply.
+//
+// Cuboids (2x2x3, 3x3x4, ...) use the same layout with faces of different
+// sizes. A turn about an axis whose cross-section is not square would change
+// the puzzle's shape, so those axes only turn 180 degrees.
+//
+// A supercube also tracks which way every sticker points. `twists` runs
+// parallel to the facelets and holds each sticker's clockwise quarter turns
+// relative to the face it sits on, so centre stickers that look solved can
+// still be turned the wrong way.
+
+export type Face = 'U' | 'R' | 'F' | 'D' | 'L' | 'B';
+export type Vec3 = [number, number, number];
+
+// Layer counts along x, y and z
+export type Dims = Vec3;
+// An NxNxN cube by its size, or a cuboid by its dimensions
+export type Shape = number | Dims;
+
+export const FACES: Face[] = ['U', 'R', 'F', 'D', 'L', 'B'];
+
+export interface CubeState {
+  size: number; // the cube's size; for a cuboid its largest dimension
+  dims?: Dims; // only set for cuboids
+  facelets: Uint8Array;
+  twists?: Uint8Array; // only set for supercubes, 0-3 per facelet
+}
+
+interface FaceFrame {
+  normal: Vec3;
+  right: Vec3;
+  down: Vec3;
+}
+
+export const FACE_FRAMES: Record<Face, FaceFrame> = {
+  U: { normal: [0, 1, 0], right: [1, 0, 0], down: [0, 0, 1] },
+  R: { normal: [1, 0, 0], right: [0, 0, -1], down: [0, -1, 0] },
+  F: { normal: [0, 0, 1], right: [1, 0, 0], down: [0, -1, 0] },
+  D: { normal: [0, -1, 0], right: [1, 0, 0], down: [0, 0, -1] },
+  L: { normal: [-1, 0, 0], right: [0, 0, 1], down: [0, -1, 0] },
+  B: { normal: [0, 0, -1], right: [-1, 0, 0], down: [0, -1, 0] },
+};
+
+const AXIS_INDEX: Record<Axis, number> = { x: 0, y: 1, z: 2 };
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const axisIndexOf = (v: Vec3) => v.findIndex(c => c !== 0);
+
+// --- Shapes ---
+
+export const toDims = (shape: Shape): Dims => (typeof shape === 'number' ? [shape, shape, shape] : shape);
+
+export const isCuboid = (shape: Shape) => {
+  const [x, y, z] = toDims(shape);
+  return x !== y || y !== z;
+};
+
+// Cubes are written as their size, so equal shapes compare equal
+export const normalizeShape = (shape: Shape): Shape => (isCuboid(shape) ? [...toDims(shape)] as Dims : toDims(shape)[0]);
+
+export const stateShape = (state: CubeState): Shape => state.dims ?? state.size;
+
+// "3x3" for a cube, "2x3x4" for a cuboid
+export const shapeName = (shape: Shape) => (isCuboid(shape) ? toDims(shape).join('x') : `${toDims(shape)[0]}x${toDims(shape)[0]}`);
+
+// Text form used in saved states and links: "3" for a cube, "2x3x4" for a cuboid
+export const shapeToText = (shape: Shape) => (isCuboid(shape) ? toDims(shape).join('x') : String(toDims(shape)[0]));
+
+export const shapeFromText = (text: string): Shape | null => {
+  const match = /^(\d+)(?:x(\d+)x(\d+))?$/.exec(text);
+  if (!match) return null;
+  return normalizeShape(match[2] ? [Number(match[1]), Number(match[2]), Number(match[3])] : Number(match[1]));
+};
+
+export const shapesEqual = (a: Shape, b: Shape) => toDims(a).join() === toDims(b).join();
+
+export const layerCount = (shape: Shape, axis: Axis) => toDims(shape)[AXIS_INDEX[axis]];
+
+// Quarter turns keep the shape only when the layers they turn are square
+export const canQuarterTurn = (shape: Shape, axis: Axis) => {
+  const others = toDims(shape).filter((_, i) => i !== AXIS_INDEX[axis]);
+  return others[0] === others[1];
+};
+
+// Columns and rows of a face: the layer counts along its right and down directions
+const faceGrid = (dims: Dims, face: Face) => ({
+  cols: dims[axisIndexOf(FACE_FRAMES[face].right)],
+  rows: dims[axisIndexOf(FACE_FRAMES[face].down)],
+});
+
+// Index of each face's first facelet, followed by the total
+const faceStarts = (dims: Dims) => {
+  const starts = [0];
+  FACES.forEach(face => {
+    const { cols, rows } = faceGrid(dims, face);
+    starts.push(starts[starts.length - 1] + cols * rows);
+  });
+  return starts;
+};
+
+export const faceletCount = (shape: Shape) => faceStarts(toDims(shape))[6];
+
+// Quarter turn of a vector about a cardinal axis. direction 1 is a positive
+// (right-handed) rotation, matching setRotationFromAxisAngle in the renderer.
+export const rotateVec = (v: Vec3, axis: Axis, direction: 1 | -1): Vec3 => {
+  const [x, y, z] = v;
+  if (axis === 'x') return [x, -direction * z, direction * y];
+  if (axis === 'y') return [direction * z, y, -direction * x];
+  return [-direction * y, direction * x, z];
+};
+
+export const faceFromNormal = (n: Vec3): Face => {
+  const face = FACES.find(f => dot(FACE_FRAMES[f].normal, n) === 1);
+  if (!face) throw new Error(`Not a face normal: ${n.join(',')}`);
+  return face;
+};
+
+// Positions are expressed in doubled, centred coordinates so that even and
+// odd sizes both land on integers: layer i of an NxN sits at 2i - (N - 1).
+export const faceletLocation = (shape: Shape, index: number): { pos: Vec3; normal: Vec3 } => {
+  const dims = toDims(shape);
+  const starts = faceStarts(dims);
+  let f = 0;
+  while (index >= starts[f + 1]) f++;
+  const frame = FACE_FRAMES[FACES[f]];
+  const { cols, rows } = faceGrid(dims, FACES[f]);
+  const depth = dims[axisIndexOf(frame.normal)];
+  const row = Math.floor((index - starts[f]) / cols);
+  const col = (index - starts[f]) % cols;
+  const u = 2 * col - (cols - 1);
+  const v = 2 * row - (rows - 1);
+  const pos = [0, 1, 2].map(i =>
+    frame.normal[i] * (depth - 1) + frame.right[i] * u + frame.down[i] * v
+  ) as Vec3;
+  return { pos, normal: [...frame.normal] as Vec3 };
+};
+
+export const faceletIndexAt = (shape: Shape, pos: Vec3, normal: Vec3): number => {
+  const dims = toDims(shape);
+  const face = faceFromNormal(normal);
+  const frame = FACE_FRAMES[face];
+  const { cols, rows } = faceGrid(dims, face);
+  const col = (dot(pos, frame.right) + cols - 1) / 2;
+  const row = (dot(pos, frame.down) + rows - 1) / 2;
+  return faceStarts(dims)[FACES.indexOf(face)] + row * cols + col;
+};
+
+// Facelet index for a sticker of the renderer's cubie at centred coordinates
+// (x, y, z), i.e. the values stored in cubiesRef.
+export const faceletIndexForCubie = (shape: Shape, face: Face, x: number, y: number, z: number) =>
+  faceletIndexAt(shape, [Math.round(2 * x), Math.round(2 * y), Math.round(2 * z)], FACE_FRAMES[face].normal);
+
+// A state of the given shape holding the given facelets (and sticker twists)
+const withFacelets = (shape: Shape, facelets: Uint8Array, twists?: Uint8Array): CubeState => {
+  const state: CubeState = isCuboid(shape)
+    ? { size: Math.max(...toDims(shape)), dims: [...toDims(shape)] as Dims, facelets }
+    : { size: toDims(shape)[0], facelets };
+  if (twists) state.twists = twists;
+  return state;
+};
+
+export const isSupercube = (state: CubeState) => !!state.twists;
+
+export const createSolvedState = (shape: Shape, supercube = false): CubeState => {
+  const dims = toDims(shape);
+  if (!dims.every(n => Number.isInteger(n) && n >= 1)) {
+    throw new Error(`Invalid cube size: ${dims.join('x')}`);
+  }
+  const starts = faceStarts(dims);
+  const facelets = new Uint8Array(starts[6]);
+  for (let f = 0; f < 6; f++) facelets.fill(f, starts[f], starts[f + 1]);
+  return withFacelets(normalizeShape(shape), facelets, supercube ? new Uint8Array(starts[6]) : undefined);
+};
+
+export const cloneState = (state: CubeState): CubeState =>
+  withFacelets(stateShape(state), state.facelets.slice(), state.twists?.slice());
+
+export const statesEqual = (a: CubeState, b: CubeState) => {
+  if (!shapesEqual(stateShape(a), stateShape(b)) || a.facelets.length !== b.facelets.length) return false;
+  for (let i = 0; i < a.facelets.length; i++) {
+    if (a.facelets[i] !== b.facelets[i]) return false;
+  }
+  if (!a.twists || !b.twists) return !a.twists && !b.twists;
+  return a.twists.every((twist, i) => twist === b.twists![i]);
+};
+
+// --- Move application ---
+
+// Builds a move, leaving out the optional fields when they hold their
+// defaults so single quarter turns keep their plain shape
+export const createMove = (axis: Axis, layer: number, toLayer: number, direction: 1 | -1, amount: 1 | 2 = 1): Move => {
+  const move: Move = { axis, layer: Math.min(layer, toLayer), direction };
+  if (toLayer !== layer) move.toLayer = Math.max(layer, toLayer);
+  if (amount === 2) move.amount = 2;
+  return move;
+};
+
+export const moveLastLayer = (move: Move) => move.toLayer ?? move.layer;
+
+export const moveAmount = (move: Move) => move.amount ?? 1;
+
+export const movesEqual = (a: Move, b: Move) =>
+  a.axis === b.axis && a.layer === b.layer && moveLastLayer(a) === moveLastLayer(b) &&
+  a.direction === b.direction && moveAmount(a) === moveAmount(b);
+
+// The single-layer quarter turns a move is made of, one quarter turn of the
+// whole block after the other
+export const expandMove = (move: Move): Move[] => {
+  const quarters: Move[] = [];
+  for (let t = 0; t < moveAmount(move); t++) {
+    for (let layer = move.layer; layer <= moveLastLayer(move); layer++) {
+      quarters.push({ axis: move.axis, layer, direction: move.direction });
+    }
+  }
+  return quarters;
+};
+
+// Rewrites moves as few block moves as possible. Consecutive quarter turns of
+// distinct layers on one axis in the same direction become one block (one per
+// run of adjacent layers), and the same block repeated straight after becomes
+// a half turn. The result has the same effect as the input.
+export const combineMoves = (moves: Move[]): Move[] => {
+  const quarters = moves.flatMap(expandMove);
+  const sameTurn = (move: Move | undefined, axis: Axis, direction: 1 | -1) =>
+    !!move && move.axis === axis && move.direction === direction;
+
+  const combined: Move[] = [];
+  let i = 0;
+  while (i < quarters.length) {
+    const { axis, direction } = quarters[i];
+    const layers = [quarters[i].layer];
+    let j = i + 1;
+    while (sameTurn(quarters[j], axis, direction) && !layers.includes(quarters[j].layer)) {
+      layers.push(quarters[j].layer);
+      j++;
+    }
+    const repeated = layers.every((layer, k) => sameTurn(quarters[j + k], axis, direction) && quarters[j + k].layer === layer);
+    i = repeated ? j + layers.length : j;
+
+    layers.sort((a, b) => a - b);
+    let low = layers[0];
+    layers.forEach((layer, k) => {
+      const next = layers[k + 1];
+      if (next === layer + 1) return;
+      combined.push(createMove(axis, low, layer, direction, repeated ? 2 : 1));
+      low = next;
+    });
+  }
+  return combined;
+};
+
+// Each move is a sparse permutation: pairs of (from, to) facelet indices for
+// the stickers it moves, plus how far each of those stickers turns relative to
+// its new face. They are cached per shape because shuffles and solvers apply
+// the same handful of turns over and over.
+interface MovePermutation {
+  perm: Int32Array;
+  twists: Uint8Array; // one per pair
+}
+
+const permutationCache = new Map<string, MovePermutation>();
+
+// Clockwise quarter turn, as seen from outside, about a face normal
+const turnClockwise = (v: Vec3, normal: Vec3): Vec3 => {
+  const a = axisIndexOf(normal);
+  return rotateVec(v, (['x', 'y', 'z'] as Axis[])[a], -normal[a] as 1 | -1);
+};
+
+// Quarter turns taking a face's up direction to `up`
+const twistOnFace = (face: Face, up: Vec3) => {
+  const { normal, down } = FACE_FRAMES[face];
+  let v: Vec3 = [-down[0], -down[1], -down[2]];
+  for (let k = 0; k < 4; k++) {
+    if (dot(v, up) === 1) return k;
+    v = turnClockwise(v, normal);
+  }
+  throw new Error(`Not a direction on face ${face}: ${up.join(',')}`);
+};
+
+const buildPermutation = (shape: Shape, move: Move): MovePermutation => {
+  const a = AXIS_INDEX[move.axis];
+  const count = layerCount(shape, move.axis);
+  const low = 2 * move.layer - (count - 1);
+  const high = 2 * moveLastLayer(move) - (count - 1);
+  const pairs: number[] = [];
+  const twists: number[] = [];
+  const total = faceletCount(shape);
+  for (let i = 0; i < total; i++) {
+    let { pos, normal } = faceletLocation(shape, i);
+    if (pos[a] < low || pos[a] > high) continue;
+    const { down } = FACE_FRAMES[faceFromNormal(normal)];
+    let up: Vec3 = [-down[0], -down[1], -down[2]];
+    for (let t = 0; t < moveAmount(move); t++) {
+      pos = rotateVec(pos, move.axis, move.direction);
+      normal = rotateVec(normal, move.axis, move.direction);
+      up = rotateVec(up, move.axis, move.direction);
+    }
+    pairs.push(i, faceletIndexAt(shape, pos, normal));
+    twists.push(twistOnFace(faceFromNormal(normal), up));
+  }
+  return { perm: Int32Array.from(pairs), twists: Uint8Array.from(twists) };
+};
+
+const cachedPermutation = (shape: Shape, move: Move): MovePermutation => {
+  const last = moveLastLayer(move);
+  const count = layerCount(shape, move.axis);
+  if (!Number.isInteger(move.layer) || move.layer < 0 || move.layer >= count) {
+    throw new Error(`Layer ${move.layer} out of range for a ${shapeName(shape)} cube`);
+  }
+  if (!Number.isInteger(last) || last < move.layer || last >= count) {
+    throw new Error(`Layer block ${move.layer}-${last} out of range for a ${shapeName(shape)} cube`);
+  }
+  if (moveAmount(move) !== 1 && moveAmount(move) !== 2) throw new Error(`Invalid turn amount ${move.amount}`);
+  if (moveAmount(move) === 1 && !canQuarterTurn(shape, move.axis)) {
+    throw new Error(`A ${shapeName(shape)} only turns 180 degrees about ${move.axis}`);
+  }
+  const key = `${toDims(shape).join('x')}:${move.axis}:${move.layer}-${last}:${move.direction}:${moveAmount(move)}`;
+  let permutation = permutationCache.get(key);
+  if (!permutation) {
+    permutation = buildPermutation(shape, move);
+    permutationCache.set(key, permutation);
+  }
+  return permutation;
+};
+
+export const getMovePermutation = (shape: Shape, move: Move): Int32Array => cachedPermutation(shape, move).perm;
+
+export const applyMove = (state: CubeState, move: Move): CubeState => {
+  const { perm, twists } = cachedPermutation(stateShape(state), move);
+  const facelets = state.facelets.slice();
+  for (let i = 0; i < perm.length; i += 2) {
+    facelets[perm[i + 1]] = state.facelets[perm[i]];
+  }
+  if (!state.twists) return withFacelets(stateShape(state), facelets);
+  const stickerTwists = state.twists.slice();
+  for (let i = 0; i < perm.length; i += 2) {
+    stickerTwists[perm[i + 1]] = (state.twists[perm[i]] + twists[i / 2]) % 4;
+  }
+  return withFacelets(stateShape(state), facelets, stickerTwists);
+};
+
+export const applyMoves = (state: CubeState, moves: Move[]): CubeState =>
+  moves.reduce(applyMove, state);
+
+// Quarter turn of the layer `depth` layers in from `face`, clockwise as seen
+// looking at that face (counter-clockwise when `prime` is set). Outer face
+// turns use depth 0, e.g. faceToMove('R', 3) is R on a 3x3.
+export const faceToMove = (face: Face, shape: Shape, prime = false, depth = 0): Move => {
+  const normal = FACE_FRAMES[face].normal;
+  const a = normal.findIndex(c => c !== 0);
+  const sign = normal[a];
+  const axis = (['x', 'y', 'z'] as Axis[])[a];
+  const clockwise = -sign as 1 | -1;
+  return {
+    axis,
+    layer: sign > 0 ? layerCount(shape, axis) - 1 - depth : depth,
+    direction: prime ? (-clockwise as 1 | -1) : clockwise,
+  };
+};
+
+export const invertMove = (move: Move): Move => ({
+  ...move,
+  direction: (move.direction * -1) as 1 | -1,
+});
+
+export const invertMoves = (moves: Move[]): Move[] => [...moves].reverse().map(invertMove);
+
+// --- Serialization ---
+
+// Compact text form: "<size>:<facelets as face letters>", e.g. "3:UUUUUUUUURRR...",
+// with the dimensions in place of the size for cuboids ("2x2x3:UUUU...").
+// Supercubes append their sticker twists as digits ("3:UUU...:0000...").
+export const serializeState = (state: CubeState): string =>
+  `${shapeToText(stateShape(state))}:${Array.from(state.facelets, f => FACES[f]).join('')}` +
+  (state.twists ? `:${state.twists.join('')}` : '');
+
+export const deserializeState = (text: string): CubeState => {
+  const match = /^([\dx]+):([URFDLB]+)(?::([0-3]+))?$/.exec(text.trim());
+  const shape = match && shapeFromText(match[1]);
+  if (!match || !shape) throw new Error('Malformed cube state');
+  const letters = match[2];
+  if (toDims(shape).some(n => n < 1) || letters.length !== faceletCount(shape)) {
+    throw new Error(`Expected ${faceletCount(shape)} facelets for a ${shapeName(shape)} cube, got ${letters.length}`);
+  }
+  const facelets = Uint8Array.from(letters, c => FACES.indexOf(c as Face));
+  if (match[3] !== undefined && match[3].length !== letters.length) {
+    throw new Error(`Expected ${letters.length} sticker twists, got ${match[3].length}`);
+  }
+  const twists = match[3] !== undefined ? Uint8Array.from(match[3], Number) : undefined;
+  return withFacelets(shape, facelets, twists);
+};
+
+// --- Solved detection ---
+
+// A cube is solved when every face shows a single colour. Which colour ends up
+// on which face does not matter, so a solved cube held in any orientation (or
+// reached through slice moves that relocate the centres) still counts. A
+// supercube's stickers must also all point the same way on each face.
+export const isSolved = (state: CubeState): boolean => {
+  const starts = faceStarts(toDims(stateShape(state)));
+  const { facelets, twists } = state;
+  for (let f = 0; f < 6; f++) {
+    for (let i = starts[f] + 1; i < starts[f + 1]; i++) {
+      if (facelets[i] !== facelets[starts[f]]) return false;
+      if (twists && twists[i] !== twists[starts[f]]) return false;
+    }
+  }
+  return true;
+};
+
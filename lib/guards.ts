@@ -0,0 +1,5 @@
+// Type guards for data from outside the app (localStorage, imported files),
+// which is parsed as unknown and narrowed before use.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,58 @@
+import { Move } from '../types';
+import { CubeState, applyMove, applyMoves, expandMove } from './cubeState';
+import { movesToNotation } from './notation';
+
+// Hints from a solver solution of the current state: the next turn, what it
+// does for the solve, and a peek at the moves that follow. The arrows can
+// only show a quarter turn of one layer, so a wide, block or half turn is
+// hinted one such step at a time.
+
+export const HINT_PREVIEW_LENGTH = 3;
+
+export interface Hint {
+  move: Move; // the single-layer quarter turn the arrows point at
+  notation: string;
+  explanation: string;
+  preview: string; // the next HINT_PREVIEW_LENGTH single-layer quarter turns
+}
+
+const countMatching = (a: CubeState, b: CubeState) => {
+  let count = 0;
+  for (let i = 0; i < a.facelets.length; i++) if (a.facelets[i] === b.facelets[i]) count++;
+  return count;
+};
+
+// Describes the first step of a solution by its effect on the stickers,
+// measured against the solved state the solution ends in
+const explain = (state: CubeState, solution: Move[], steps: Move[], exact: boolean, stage: string | null) => {
+  const solved = applyMoves(state, solution);
+  const after = applyMove(state, steps[0]);
+  const gained = countMatching(after, solved) - countMatching(state, solved);
+
+  let effect: string;
+  if (steps.length === 1) effect = 'This solves the cube.';
+  else if (gained > 0) effect = `This puts ${gained} more sticker${gained === 1 ? '' : 's'} in place.`;
+  else effect = 'This sets up the moves that follow.';
+
+  const distance = exact
+    ? `${solution.length} move${solution.length === 1 ? '' : 's'} from solved.`
+    : `Move 1 of ${solution.length}.`;
+  return [stage && `${stage}.`, distance, effect].filter(Boolean).join(' ');
+};
+
+// Builds the hint for a state from a solution of it. `exact` says the
+// solution is optimal, so its length is the distance from solved; `stage` is
+// the solver's name for the part of the solve the first move is in.
+export const createHint = (state: CubeState, solution: Move[], exact: boolean, stage: string | null = null): Hint | null => {
+  if (solution.length === 0) return null;
+  const steps = [...expandMove(solution[0]), ...solution.slice(1)];
+  return {
+    move: steps[0],
+    notation: movesToNotation([steps[0]], state.size),
+    explanation: explain(state, solution, steps, exact, stage),
+    // The quarter turns the next hints will show, named one at a time as
+    // movesToNotation would merge R R into R2
+    preview: solution.slice(0, HINT_PREVIEW_LENGTH).flatMap(expandMove).slice(0, HINT_PREVIEW_LENGTH)
+      .map(step => movesToNotation([step], state.size)).join(' '),
+  };
+};
@@ -0,0 +1,57 @@
+// Minimal promise wrapper around a single IndexedDB key-value store. Works
+// both on the main thread and inside workers. Every call degrades to a no-op
+// (or undefined) when IndexedDB is unavailable, e.g. in private browsing.
+
+const DB_NAME = 'hypercube';
+const DB_VERSION = 1;
+const STORE = 'kv';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry instead of caching the failure forever
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const idbGet = async <T>(key: string): Promise<T | undefined> => {
+  try {
+    return await run<T | undefined>('readonly', store => store.get(key));
+  } catch (e) {
+    console.warn(`IndexedDB read of "${key}" failed`, e);
+    return undefined;
+  }
+};
+
+export const idbSet = async (key: string, value: unknown): Promise<void> => {
+  try {
+    await run('readwrite', store => store.put(value, key));
+  } catch (e) {
+    console.warn(`IndexedDB write of "${key}" failed`, e);
+  }
+};
@@ -0,0 +1,118 @@
+import { Move } from '../types';
+import { Face, Shape, faceToMove, layerCount } from './cubeState';
+import { isRecord } from './guards';
+import { NotationError, parseAlgorithm } from './notation';
+
+// Keyboard turning. A key map binds physical keys (KeyboardEvent.code, so
+// the layout does not matter) to a turn written in notation. Holding Shift
+// makes a face turn wide and Alt turns the slice behind the face instead.
+
+const STORAGE_KEY = 'hypercube-key-map';
+
+export type KeyMap = Record<string, string>;
+
+export interface KeyboardSettings {
+  enabled: boolean;
+  map: KeyMap;
+}
+
+// Every turn that can be bound, in the order the settings list them
+export const KEY_ACTIONS = [
+  'U', "U'", 'D', "D'", 'R', "R'", 'L', "L'", 'F', "F'", 'B', "B'",
+  'u', "u'", 'd', "d'", 'r', "r'", 'l', "l'",
+  'M', "M'", 'E', "E'", 'S', "S'",
+  'x', "x'", 'y', "y'", 'z', "z'",
+];
+
+export const KEY_MAP_PRESETS: Record<string, KeyMap> = {
+  // The virtual cube layout of csTimer
+  cstimer: {
+    KeyJ: 'U', KeyF: "U'", KeyS: 'D', KeyL: "D'",
+    KeyI: 'R', KeyK: "R'", KeyD: 'L', KeyE: "L'",
+    KeyH: 'F', KeyG: "F'", KeyW: 'B', KeyO: "B'",
+    KeyC: 'u', Comma: "u'", KeyZ: 'd', Slash: "d'",
+    KeyU: 'r', KeyM: "r'", KeyV: 'l', KeyR: "l'",
+    Digit5: 'M', Digit6: 'M', KeyX: "M'", Period: "M'",
+    KeyT: 'x', KeyY: 'x', KeyB: "x'", KeyN: "x'",
+    Semicolon: 'y', KeyA: "y'", KeyP: 'z', KeyQ: "z'",
+  },
+  // Nothing bound, for building a layout from scratch
+  empty: {},
+};
+
+export const DEFAULT_KEYBOARD_SETTINGS: KeyboardSettings = {
+  enabled: false,
+  map: KEY_MAP_PRESETS.cstimer,
+};
+
+const CODE_LABELS: Record<string, string> = {
+  Semicolon: ';', Comma: ',', Period: '.', Slash: '/', Quote: "'",
+  BracketLeft: '[', BracketRight: ']', Backslash: '\\', Minus: '-', Equal: '=', Backquote: '`',
+};
+
+// "KeyJ" -> "J", "Digit5" -> "5", "Semicolon" -> ";"
+export const keyLabel = (code: string) =>
+  CODE_LABELS[code] ?? code.replace(/^Key|^Digit|^Numpad/, '');
+
+// Name of the preset the map matches, or null for a customised map
+export const matchingPreset = (map: KeyMap): string | null => {
+  const codes = Object.keys(map);
+  const name = Object.keys(KEY_MAP_PRESETS).find(preset => {
+    const presetMap = KEY_MAP_PRESETS[preset];
+    return codes.length === Object.keys(presetMap).length && codes.every(code => presetMap[code] === map[code]);
+  });
+  return name ?? null;
+};
+
+// The turns bound to a key with the modifiers applied, or null when the key
+// is not bound. Modifiers only change single face turns on cubes big enough
+// to have the extra layers; a turn the cube does not have (M on a 2x2, or a
+// quarter turn a cuboid only makes as a half turn) is bound but does nothing.
+export const keyTurn = (
+  map: KeyMap,
+  code: string,
+  shape: Shape,
+  modifiers: { wide: boolean; slice: boolean }
+): Move[] | null => {
+  let action = map[code];
+  if (!action) return null;
+  const face = /^([URFDLB])('?)$/.exec(action);
+  if (face && layerCount(shape, faceToMove(face[1] as Face, shape).axis) > 2) {
+    if (modifiers.slice) action = `2${face[1]}${face[2]}`;
+    else if (modifiers.wide) action = `${face[1]}w${face[2]}`;
+  }
+  try {
+    return parseAlgorithm(action, shape);
+  } catch (e) {
+    if (e instanceof NotationError) return [];
+    throw e;
+  }
+};
+
+export const loadKeyboardSettings = (): KeyboardSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_KEYBOARD_SETTINGS;
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed) || typeof parsed.enabled !== 'boolean' || !isRecord(parsed.map)) {
+      throw new Error('Malformed key map');
+    }
+    // Drop bindings to turns this version does not know
+    const known: KeyMap = {};
+    Object.entries(parsed.map).forEach(([code, action]) => {
+      if (typeof action === 'string' && KEY_ACTIONS.includes(action)) known[code] = action;
+    });
+    return { enabled: parsed.enabled, map: known };
+  } catch (e) {
+    console.warn('Could not read key map', e);
+    return DEFAULT_KEYBOARD_SETTINGS;
+  }
+};
+
+export const saveKeyboardSettings = (settings: KeyboardSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('Could not store key map', e);
+  }
+};
@@ -0,0 +1,188 @@
+import { Axis, Move } from '../types';
+import { Face, Shape, canQuarterTurn, combineMoves, createMove, faceToMove, layerCount, moveAmount, moveLastLayer, shapeName } from './cubeState';
+
+// Conversion between Move[] and cube notation for any size. On cuboids the
+// layers are counted per axis and turns that would change the shape (R on a
+// 2x2x3) are rejected; their half turns are fine.
+//
+// Supported tokens (WCA plus the SiGN extensions common for big cubes):
+//   R U' F2 B2'     outer face turns, prime and double suffixes
+//   Rw 3Rw r 3r     wide turns: the outer 2 (or n) layers
+//   2R 3L'          a single inner layer, counted from that face
+//   2-3R 4-6u       a range of layers, counted from that face
+//   M E S           every inner layer, turning like L, D and F
+//   x y z           whole-cube rotations, turning like R, U and F
+// Brackets and commas are ignored, so "(R U R' U')" parses as four moves.
+// Every token becomes a single block Move. Amounts that turn nothing (R0,
+// R4) are rejected, as is a word that only starts with a move ("foo").
+
+export class NotationError extends Error {
+  // Character range of the offending token in the parsed text
+  readonly start: number;
+  readonly end: number;
+  readonly token: string;
+
+  constructor(message: string, token: string, start: number) {
+    super(message);
+    this.name = 'NotationError';
+    this.token = token;
+    this.start = start;
+    this.end = start + token.length;
+  }
+}
+
+export interface NotationToken {
+  text: string;
+  start: number;
+  end: number;
+  moves: Move[];
+}
+
+// Slice and rotation letters: which face they turn like and whether they
+// cover all layers or only the inner ones
+const SLICE_LETTERS: Record<string, { face: Face; layers: 'inner' | 'all' }> = {
+  M: { face: 'L', layers: 'inner' },
+  E: { face: 'D', layers: 'inner' },
+  S: { face: 'F', layers: 'inner' },
+  x: { face: 'R', layers: 'all' },
+  y: { face: 'U', layers: 'all' },
+  z: { face: 'F', layers: 'all' },
+};
+
+const TOKEN = /(\d+)?(?:-(\d+))?([URFDLB]w|[URFDLBurfdlbMESxyz])(\d+)?(['’′])?(\d+)?/y;
+const SEPARATOR = /[\s(),]+/y;
+
+const parseToken = (text: string, match: RegExpExecArray, start: number, shape: Shape): Move[] => {
+  const [, fromText, toText, letters, amountBefore, prime, amountAfter] = match;
+  const fail = (message: string): never => { throw new NotationError(message, text, start); };
+
+  if (amountBefore && amountAfter) fail(`"${text}" has two turn amounts`);
+  const amount = Number(amountBefore ?? amountAfter ?? 1);
+
+  let depths: number[];
+  const slice = SLICE_LETTERS[letters];
+  const face = slice ? slice.face : letters[0].toUpperCase() as Face;
+  const { axis } = faceToMove(face, shape);
+  // Layers along the turn's axis
+  const size = layerCount(shape, axis);
+  if (slice) {
+    if (fromText) fail(`"${letters}" cannot take a layer prefix`);
+    depths = slice.layers === 'all'
+      ? Array.from({ length: size }, (_, i) => i)
+      : Array.from({ length: size - 2 }, (_, i) => i + 1);
+    if (depths.length === 0) fail(`"${letters}" needs a cube with inner layers`);
+  } else {
+    const wide = letters.length === 2 || letters[0] !== face;
+    const from = fromText ? Number(fromText) : 1;
+    const to = toText ? Number(toText) : wide ? (fromText ? from : 2) : from;
+    if (toText) {
+      // 2-3R style ranges
+      depths = Array.from({ length: to - from + 1 }, (_, i) => from - 1 + i);
+    } else if (wide) {
+      depths = Array.from({ length: to }, (_, i) => i);
+    } else {
+      depths = [from - 1];
+    }
+    if (from < 1 || to < from) fail(`"${text}" has an invalid layer range`);
+    if (to > size) fail(`Layer ${to} does not exist on a ${shapeName(shape)} cube`);
+  }
+
+  const quarterTurns = amount % 4;
+  if (quarterTurns === 0) fail(`"${text}" does not turn anything`);
+  if (quarterTurns !== 2 && !canQuarterTurn(shape, axis)) {
+    fail(`A ${shapeName(shape)} only turns "${letters}" 180 degrees`);
+  }
+  const inverted = (quarterTurns === 3) !== !!prime;
+  const first = faceToMove(face, shape, inverted, depths[0]);
+  const last = faceToMove(face, shape, inverted, depths[depths.length - 1]);
+  return [createMove(first.axis, first.layer, last.layer, first.direction, quarterTurns === 2 ? 2 : 1)];
+};
+
+export const tokenizeAlgorithm = (text: string, shape: Shape): NotationToken[] => {
+  const tokens: NotationToken[] = [];
+  let pos = 0;
+  // Moves may be run together ("RUR'"), so an error covers the whole word
+  let wordStart = 0;
+  while (pos < text.length) {
+    SEPARATOR.lastIndex = pos;
+    if (SEPARATOR.exec(text)) {
+      pos = SEPARATOR.lastIndex;
+      wordStart = pos;
+      continue;
+    }
+    TOKEN.lastIndex = pos;
+    const match = TOKEN.exec(text);
+    if (!match) {
+      const bad = /\S[^\s(),]*/y;
+      bad.lastIndex = wordStart;
+      pos = wordStart;
+      const token = bad.exec(text)?.[0] ?? text[pos];
+      throw new NotationError(`Unknown move "${token}"`, token, pos);
+    }
+    const tokenText = match[0];
+    tokens.push({
+      text: tokenText,
+      start: pos,
+      end: pos + tokenText.length,
+      moves: parseToken(tokenText, match, pos, shape),
+    });
+    pos = TOKEN.lastIndex;
+  }
+  return tokens;
+};
+
+export const parseAlgorithm = (text: string, shape: Shape): Move[] =>
+  tokenizeAlgorithm(text, shape).flatMap(token => token.moves);
+
+// --- Serialization ---
+
+// The faces on the positive and negative end of each axis
+const AXIS_FACES: Record<Axis, [Face, Face]> = {
+  x: ['R', 'L'],
+  y: ['U', 'D'],
+  z: ['F', 'B'],
+};
+
+const SLICE_NAMES: Record<Axis, { slice: string; face: Face; rotation: string }> = {
+  x: { slice: 'M', face: 'L', rotation: 'x' },
+  y: { slice: 'E', face: 'D', rotation: 'y' },
+  z: { slice: 'S', face: 'F', rotation: 'z' },
+};
+
+// Names a quarter turn of a contiguous block of layers, e.g. "3Rw" or "2-3L'"
+const nameBlock = (axis: Axis, low: number, high: number, direction: 1 | -1, shape: Shape) => {
+  const [positive, negative] = AXIS_FACES[axis];
+  const size = layerCount(shape, axis);
+  let face: Face;
+  let name: string;
+  if (high - low + 1 === size) {
+    face = positive;
+    name = SLICE_NAMES[axis].rotation;
+  } else if (size > 2 && low === 1 && high === size - 2) {
+    face = SLICE_NAMES[axis].face;
+    name = SLICE_NAMES[axis].slice;
+  } else {
+    // Count from the face the block touches, otherwise from the nearer one
+    const fromPositive = high === size - 1 || (low !== 0 && size - 1 - high <= low);
+    face = fromPositive ? positive : negative;
+    const first = fromPositive ? size - high : low + 1;
+    const last = fromPositive ? size - low : high + 1;
+    if (last === 1) name = face;
+    else if (first === 1 && last === 2) name = `${face}w`;
+    else if (first === 1) name = `${last}${face}w`;
+    else if (first === last) name = `${first}${face}`;
+    else name = `${first}-${last}${face}`;
+  }
+  return { name, prime: direction !== faceToMove(face, shape).direction };
+};
+
+// Formats moves as notation, one token per block after combineMoves has
+// merged the quarter turns, so the output parses back to moves with the same
+// effect.
+export const movesToNotation = (moves: Move[], shape: Shape): string =>
+  combineMoves(moves)
+    .map(move => {
+      const { name, prime } = nameBlock(move.axis, move.layer, moveLastLayer(move), move.direction, shape);
+      return `${name}${moveAmount(move) === 2 ? '2' : ''}${prime ? "'" : ''}`;
+    })
+    .join(' ');
@@ -0,0 +1,17 @@
+// Small seedable PRNG so scrambles can be regenerated from their seed.
+
+// mulberry32: 32-bit state, good enough spread for picking scramble moves
+export const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+export const randomInt = (random: () => number, max: number) => Math.floor(random() * max);
@@ -0,0 +1,69 @@
+import { Move } from '../types';
+import { Face, Shape, canQuarterTurn, faceToMove, layerCount, toDims } from './cubeState';
+import { movesToNotation, parseAlgorithm } from './notation';
+import { createRandom, randomInt, randomSeed } from './random';
+import { simplifyMoves } from './simplify';
+import { hasRandomStateScrambles, randomStateScramble } from './solver';
+
+// Scramble generation. The 2x2 and 3x3 get random-state scrambles from the
+// solver worker; bigger cubes get WCA-style random-move scrambles. Either way
+// the same size and seed always give the same scramble. Cuboids get
+// random-move scrambles too, with half turns only where a quarter turn would
+// change the shape.
+
+export interface Scramble {
+  shape: Shape;
+  seed: number | null; // null for scrambles that were not generated here
+  text: string;
+  moves: Move[];
+}
+
+const AXIS_OF_FACE: Record<Face, number> = { U: 0, D: 0, R: 1, L: 1, F: 2, B: 2 };
+const SCRAMBLE_FACES: Face[] = ['U', 'D', 'R', 'L', 'F', 'B'];
+const SUFFIXES = ['', '2', "'"];
+
+// 40 moves for a 4x4, 60 for a 5x5 and so on, as in official scrambles
+const scrambleLength = (size: number) => Math.max(40, 20 * (size - 2));
+
+// Random face turns of depth 1 up to half the cube. A turn is redrawn when
+// the same face and depth was already turned since the axis last changed,
+// which rules out cancellations (R R'), merges (R R) and commuting repeats
+// (R L R). Half-cube wide turns only use U, R and F because on even cubes the
+// opposite one is the same turn plus a rotation.
+const randomMoveScramble = (shape: Shape, random: () => number): string => {
+  const tokens: string[] = [];
+  let axis = -1;
+  let turned = new Set<string>();
+
+  while (tokens.length < scrambleLength(Math.max(...toDims(shape)))) {
+    const face = SCRAMBLE_FACES[randomInt(random, 6)];
+    const faceAxis = faceToMove(face, shape).axis;
+    const size = layerCount(shape, faceAxis);
+    const depth = 1 + randomInt(random, Math.floor(size / 2));
+    if (2 * depth === size && !['U', 'R', 'F'].includes(face)) continue;
+
+    const key = `${face}${depth}`;
+    if (AXIS_OF_FACE[face] !== axis) {
+      axis = AXIS_OF_FACE[face];
+      turned = new Set();
+    } else if (turned.has(key)) {
+      continue;
+    }
+    turned.add(key);
+
+    const name = depth === 1 ? face : depth === 2 ? `${face}w` : `${depth}${face}w`;
+    tokens.push(name + (canQuarterTurn(shape, faceAxis) ? SUFFIXES[randomInt(random, 3)] : '2'));
+  }
+  return tokens.join(' ');
+};
+
+export const generateScramble = async (shape: Shape, seed = randomSeed()): Promise<Scramble> => {
+  let text: string;
+  if (typeof shape === 'number' && hasRandomStateScrambles(shape)) {
+    // Half turns are written plainly; the direction of a 180 is irrelevant
+    text = movesToNotation(simplifyMoves(await randomStateScramble(shape, seed)), shape).replace(/2'/g, '2');
+  } else {
+    text = randomMoveScramble(shape, createRandom(seed));
+  }
+  return { shape, seed, text, moves: simplifyMoves(parseAlgorithm(text, shape)) };
+};
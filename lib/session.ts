@@ -0,0 +1,90 @@
+import { CubeTheme, Move } from '../types';
+import { CubeState, Shape, canQuarterTurn, deserializeState, layerCount, serializeState, stateShape } from './cubeState';
+import { isRecord } from './guards';
+import { isTheme } from './themes';
+
+// The cube session saved across reloads: state, size, theme, speed and move
+// history. Stored sessions carry a schema version; older ones are brought up
+// to date by MIGRATIONS before use, newer or broken ones are dropped.
+
+const STORAGE_KEY = 'hypercube-session';
+const SCHEMA_VERSION = 1;
+
+export interface CubeSession {
+  state: CubeState;
+  themeName: string | null; // null for a theme that is neither a preset nor a saved custom theme
+  theme: CubeTheme;
+  solveSpeed: number;
+  history: Move[];
+}
+
+interface StoredSessionV1 {
+  version: 1;
+  state: string; // serializeState output, which also records the size
+  themeName: string | null;
+  theme: CubeTheme;
+  solveSpeed: number;
+  history: Move[];
+}
+
+// MIGRATIONS[n] turns a version n + 1 session into version n + 2. Stored
+// data is untrusted, so each one checks the fields it reads.
+const MIGRATIONS: ((session: Record<string, unknown>) => Record<string, unknown>)[] = [];
+
+const isLayer = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isMove = (m: unknown, shape: Shape): m is Move => {
+  if (!isRecord(m) || (m.axis !== 'x' && m.axis !== 'y' && m.axis !== 'z') || !isLayer(m.layer)) return false;
+  const last = m.toLayer === undefined ? m.layer : m.toLayer;
+  return isLayer(last) && last >= m.layer && last < layerCount(shape, m.axis) &&
+    (m.direction === 1 || m.direction === -1) && (m.amount === undefined || m.amount === 1 || m.amount === 2) &&
+    (m.amount === 2 || canQuarterTurn(shape, m.axis));
+};
+
+export const loadSession = (): CubeSession | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRecord(parsed)) throw new Error('The stored session is not an object');
+    let session = parsed;
+    const version = Number(session.version);
+    if (!Number.isInteger(version) || version < 1 || version > SCHEMA_VERSION) {
+      throw new Error(`Unknown session version ${session.version}`);
+    }
+    for (let v = version; v < SCHEMA_VERSION; v++) session = MIGRATIONS[v - 1](session);
+
+    if (typeof session.state !== 'string') throw new Error('Malformed state');
+    const state = deserializeState(session.state);
+    const history: unknown[] = Array.isArray(session.history) ? session.history : [];
+    if (!history.every((m): m is Move => isMove(m, stateShape(state)))) throw new Error('Malformed move history');
+    if (!isTheme(session.theme)) throw new Error('Malformed theme');
+    if (typeof session.solveSpeed !== 'number' || !Number.isFinite(session.solveSpeed)) throw new Error('Malformed solve speed');
+    return {
+      state,
+      themeName: typeof session.themeName === 'string' ? session.themeName : null,
+      theme: session.theme,
+      solveSpeed: session.solveSpeed,
+      history,
+    };
+  } catch (e) {
+    console.warn('Discarding stored cube session', e);
+    return null;
+  }
+};
+
+export const saveSession = (session: CubeSession) => {
+  const stored: StoredSessionV1 = {
+    version: SCHEMA_VERSION,
+    state: serializeState(session.state),
+    themeName: session.themeName,
+    theme: session.theme,
+    solveSpeed: session.solveSpeed,
+    history: session.history,
+  };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (e) {
+    console.warn('Could not store cube session', e);
+  }
+};
@@ -0,0 +1,204 @@
+import { CubeFinish, CubeTheme } from '../types';
+import { BEVEL_RANGE, MAX_CUBE_SIZE, MIN_CUBE_SIZE, PRESET_THEMES, STICKER_SIZE_RANGE } from '../constants';
+import { CubeState, Shape, applyMoves, createSolvedState, shapeFromText, shapeToText, stateShape, toDims } from './cubeState';
+import { parseAlgorithm } from './notation';
+import { STICKER_FINISHES, THEME_KEYS } from './themes';
+import { simplifyMoves } from './simplify';
+import type { Scramble } from './scramble';
+
+// Shareable links. Everything lives in the query string:
+//   size      cube size, or WxHxD dimensions for a cuboid, required
+//   theme     preset theme name, or
+//   colors    a custom theme as U.D.L.R.F.B.core hex colours without '#'
+//   finish    the custom theme's finish as surface_bevel_stickerSize, with
+//             _stickerless appended for stickerless cubes
+//   scramble  notation applied to a solved cube, or
+//   state     the full sticker state, packed two facelets per character
+//   supercube '1' when every sticker's orientation counts
+//   twists    a supercube state's sticker twists, packed three per character
+//   seed      seed the scramble was generated from (informational)
+//   moves     notation loaded into the algorithm player
+
+export interface SharedCube {
+  state: CubeState;
+  themeName: string | null;
+  theme: CubeTheme | null;
+  scramble: Scramble | null;
+  moves: string | null;
+}
+
+const PARAMS = ['size', 'theme', 'colors', 'finish', 'scramble', 'state', 'supercube', 'twists', 'seed', 'moves'];
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+// Facelets are 0-5, so two of them fit in one 6-bit URL-safe character
+const packFacelets = (facelets: Uint8Array) => {
+  let packed = '';
+  for (let i = 0; i < facelets.length; i += 2) {
+    packed += ALPHABET[facelets[i] * 8 + (facelets[i + 1] ?? 0)];
+  }
+  return packed;
+};
+
+const unpackFacelets = (packed: string, shape: Shape) => {
+  const solved = createSolvedState(shape).facelets;
+  const count = solved.length;
+  if (packed.length !== Math.ceil(count / 2)) {
+    throw new Error(`The state has ${packed.length} characters, expected ${Math.ceil(count / 2)}`);
+  }
+  const facelets = new Uint8Array(count);
+  for (let i = 0; i < packed.length; i++) {
+    const value = ALPHABET.indexOf(packed[i]);
+    const first = value >> 3;
+    const second = value & 7;
+    if (value < 0 || first > 5 || second > 5) throw new Error(`Invalid state character "${packed[i]}"`);
+    facelets[2 * i] = first;
+    if (2 * i + 1 < count) facelets[2 * i + 1] = second;
+  }
+  // Every colour must cover exactly one face's worth of stickers
+  for (let f = 0; f < 6; f++) {
+    if (facelets.filter(c => c === f).length !== solved.filter(c => c === f).length) {
+      throw new Error('The state does not describe a real cube');
+    }
+  }
+  return facelets;
+};
+
+// Twists are 0-3, so three of them fit in one character
+const packTwists = (twists: Uint8Array) => {
+  let packed = '';
+  for (let i = 0; i < twists.length; i += 3) {
+    packed += ALPHABET[twists[i] * 16 + (twists[i + 1] ?? 0) * 4 + (twists[i + 2] ?? 0)];
+  }
+  return packed;
+};
+
+const unpackTwists = (packed: string, count: number) => {
+  if (packed.length !== Math.ceil(count / 3)) {
+    throw new Error(`The twists have ${packed.length} characters, expected ${Math.ceil(count / 3)}`);
+  }
+  const twists = new Uint8Array(count);
+  for (let i = 0; i < packed.length; i++) {
+    const value = ALPHABET.indexOf(packed[i]);
+    if (value < 0) throw new Error(`Invalid twist character "${packed[i]}"`);
+    [value >> 4, (value >> 2) & 3, value & 3].forEach((twist, k) => {
+      if (3 * i + k < count) twists[3 * i + k] = twist;
+    });
+  }
+  return twists;
+};
+
+const formatFinish = (finish: CubeFinish) =>
+  [finish.surface, finish.bevel, finish.stickerSize, ...(finish.stickerless ? ['stickerless'] : [])].join('_');
+
+const parseFinish = (text: string): CubeFinish => {
+  const [surface, bevel, stickerSize, stickerless, ...rest] = text.split('_');
+  const finish: CubeFinish = {
+    stickerless: stickerless === 'stickerless',
+    surface: surface as CubeFinish['surface'],
+    bevel: Number(bevel),
+    stickerSize: Number(stickerSize),
+  };
+  if (
+    rest.length > 0 || (stickerless !== undefined && !finish.stickerless) || !STICKER_FINISHES.includes(finish.surface) ||
+    !(finish.bevel >= BEVEL_RANGE.min && finish.bevel <= BEVEL_RANGE.max) ||
+    !(finish.stickerSize >= STICKER_SIZE_RANGE.min && finish.stickerSize <= STICKER_SIZE_RANGE.max)
+  ) {
+    throw new Error('The theme finish is malformed');
+  }
+  return finish;
+};
+
+// True when the query string carries a shared cube
+export const hasShareLink = (search: string) => {
+  const params = new URLSearchParams(search);
+  return PARAMS.some(param => params.has(param));
+};
+
+// Reads a shared cube from a query string; throws with a readable message
+// when the link is malformed or outside what the app supports
+export const parseShareLink = (search: string): SharedCube => {
+  const params = new URLSearchParams(search);
+  const sizeText = params.get('size');
+  const shape = sizeText && shapeFromText(sizeText);
+  if (!shape) throw new Error('The link has no valid cube size');
+  if (toDims(shape).some(n => n < MIN_CUBE_SIZE || n > MAX_CUBE_SIZE)) {
+    throw new Error(`Size ${sizeText} is outside the supported ${MIN_CUBE_SIZE}-${MAX_CUBE_SIZE} range`);
+  }
+
+  let themeName: string | null = null;
+  let theme: CubeTheme | null = null;
+  const themeParam = params.get('theme');
+  const colors = params.get('colors');
+  if (themeParam !== null) {
+    if (!PRESET_THEMES[themeParam]) throw new Error(`Unknown theme "${themeParam}"`);
+    themeName = themeParam;
+    theme = PRESET_THEMES[themeParam];
+  } else if (colors !== null) {
+    const values = colors.split('.');
+    if (values.length !== THEME_KEYS.length || !values.every(v => /^[0-9a-f]{6}$/i.test(v))) {
+      throw new Error('The theme colours are malformed');
+    }
+    theme = Object.fromEntries(THEME_KEYS.map((key, i) => [key, `#${values[i]}`])) as unknown as CubeTheme;
+    const finish = params.get('finish');
+    if (finish !== null) theme.finish = parseFinish(finish);
+  }
+
+  const scrambleText = params.get('scramble');
+  const packedState = params.get('state');
+  if (scrambleText !== null && packedState !== null) throw new Error('A link can have a scramble or a state, not both');
+
+  const supercube = params.get('supercube') === '1';
+  const packedTwists = params.get('twists');
+  if (packedTwists !== null && (!supercube || packedState === null)) {
+    throw new Error('Only a supercube state can have twists');
+  }
+
+  let state = createSolvedState(shape, supercube);
+  let scramble: SharedCube['scramble'] = null;
+  if (scrambleText !== null) {
+    // Notation errors already point at the bad token
+    const scrambleMoves = simplifyMoves(parseAlgorithm(scrambleText, shape));
+    state = applyMoves(state, scrambleMoves);
+    const seed = params.get('seed');
+    scramble = {
+      shape,
+      seed: seed !== null && /^\d+$/.test(seed) ? Number(seed) : null,
+      text: scrambleText,
+      moves: scrambleMoves,
+    };
+  } else if (packedState !== null) {
+    state = { ...state, facelets: unpackFacelets(packedState, shape) };
+    if (supercube) {
+      if (packedTwists === null) throw new Error('The supercube state has no twists');
+      state.twists = unpackTwists(packedTwists, state.facelets.length);
+    }
+  }
+
+  const moves = params.get('moves');
+  if (moves !== null) parseAlgorithm(moves, shape);
+
+  return { state, themeName, theme, scramble, moves };
+};
+
+// Builds a link to the given cube. When a scramble is given it is shared
+// instead of the sticker state, so pass one only if it still describes the cube.
+export const createShareLink = (base: string, cube: SharedCube): string => {
+  const params = new URLSearchParams();
+  params.set('size', shapeToText(stateShape(cube.state)));
+  if (cube.themeName) {
+    params.set('theme', cube.themeName);
+  } else if (cube.theme) {
+    params.set('colors', THEME_KEYS.map(key => cube.theme![key].replace('#', '')).join('.'));
+    if (cube.theme.finish) params.set('finish', formatFinish(cube.theme.finish));
+  }
+  if (cube.state.twists) params.set('supercube', '1');
+  if (cube.scramble) {
+    params.set('scramble', cube.scramble.text);
+    if (cube.scramble.seed !== null) params.set('seed', String(cube.scramble.seed));
+  } else {
+    params.set('state', packFacelets(cube.state.facelets));
+    if (cube.state.twists) params.set('twists', packTwists(cube.state.twists));
+  }
+  if (cube.moves) params.set('moves', cube.moves);
+  return `${base}?${params.toString()}`;
+};
@@ -0,0 +1,67 @@
+import { Axis, Move } from '../types';
+import { createMove, expandMove } from './cubeState';
+
+// Move sequence simplification. Turns on one axis commute with each other,
+// so a run of them only matters through the net turn of each layer: R L R'
+// is L, R R R R is nothing and R 2R is Rw. Runs are rewritten layer by layer
+// with adjacent layers that turn alike merged back into blocks.
+
+// Net clockwise quarter turns of each layer in a run of same-axis moves,
+// kept in 0..3 (3 being one turn back), plus the direction a half turn was
+// last made in so R2 stays R2
+interface LayerTurn {
+  net: number;
+  halfDirection: 1 | -1;
+}
+
+const simplifyRun = (axis: Axis, run: Move[]): Move[] => {
+  const layers = new Map<number, LayerTurn>();
+  run.flatMap(expandMove).forEach(quarter => {
+    const turn = layers.get(quarter.layer) ?? { net: 0, halfDirection: quarter.direction };
+    turn.net = (((turn.net + quarter.direction) % 4) + 4) % 4;
+    if (turn.net === 2) turn.halfDirection = quarter.direction;
+    layers.set(quarter.layer, turn);
+  });
+
+  // Normalised per-layer turns as (direction, amount), in layer order
+  const turns = [...layers.entries()]
+    .filter(([, turn]) => turn.net !== 0)
+    .sort(([a], [b]) => a - b)
+    .map(([layer, turn]) => ({
+      layer,
+      direction: turn.net === 2 ? turn.halfDirection : turn.net === 1 ? 1 : -1,
+      amount: turn.net === 2 ? 2 : 1,
+    } as { layer: number; direction: 1 | -1; amount: 1 | 2 }));
+
+  const simplified: Move[] = [];
+  let start = 0;
+  turns.forEach((turn, i) => {
+    const next = turns[i + 1];
+    if (next && next.layer === turn.layer + 1 && next.direction === turn.direction && next.amount === turn.amount) return;
+    simplified.push(createMove(axis, turns[start].layer, turn.layer, turn.direction, turn.amount));
+    start = i + 1;
+  });
+  return simplified;
+};
+
+// Cancels and merges turns within every run of moves on one axis. The result
+// has the same effect as the input and never more moves.
+export const simplifyMoves = (moves: Move[]): Move[] => {
+  const simplified: Move[] = [];
+  let i = 0;
+  while (i < moves.length) {
+    const axis = moves[i].axis;
+    let j = i + 1;
+    while (j < moves.length && moves[j].axis === axis) j++;
+    // Per-layer blocks can outnumber the input (x 2R is three blocks), in
+    // which case the run is left alone
+    const run = moves.slice(i, j);
+    const result = simplifyRun(axis, run);
+    simplified.push(...(result.length <= run.length ? result : run));
+    i = j;
+  }
+  // Cancelling a run can bring two runs on the same axis together (R U U' R)
+  return simplified.length < moves.length && simplified.some((move, k) => k > 0 && simplified[k - 1].axis === move.axis)
+    ? simplifyMoves(simplified)
+    : simplified;
+};
@@ -0,0 +1,25 @@
+import { SolveRecord } from '../types';
+
+const STORAGE_KEY = 'hypercube-solves';
+const MAX_RECORDS = 500;
+
+export const loadSolveRecords = (): SolveRecord[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn('Could not read solve records', e);
+    return [];
+  }
+};
+
+export const appendSolveRecord = (record: SolveRecord): SolveRecord[] => {
+  const records = [...loadSolveRecords(), record].slice(-MAX_RECORDS);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  } catch (e) {
+    console.warn('Could not store solve record', e);
+  }
+  return records;
+};
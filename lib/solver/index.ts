@@ -0,0 +1,71 @@
+import { Move } from '../../types';
+import { CubeState, Shape, isCuboid, serializeState, toDims } from '../cubeState';
+import type { SolveRequest, SolveResponse, SolveTask } from './solverWorker';
+
+// Main-thread handle on the solver worker. The worker is created lazily and
+// kept alive so its tables only have to be built once per page load.
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, { resolve: (response: SolveResponse) => void; reject: (error: Error) => void }>();
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('./solverWorker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<SolveResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) return;
+      pending.delete(response.id);
+      if ('error' in response) request.reject(new Error(response.error));
+      else request.resolve(response);
+    });
+    worker.addEventListener('error', (event) => {
+      // A crashed worker fails everything in flight; the next call starts a fresh one
+      pending.forEach(request => request.reject(new Error(event.message || 'Solver worker failed')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    });
+  }
+  return worker;
+};
+
+const send = (task: SolveTask) =>
+  new Promise<SolveResponse>((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    const request: SolveRequest = { ...task, id };
+    getWorker().postMessage(request);
+  });
+
+// The reduction solver's time and solution length grow with the sticker
+// count; past this size a solve takes too long to wait for
+export const MAX_SOLVER_SIZE = 15;
+
+// Cuboids have no solver and are solved by undoing their history, as are
+// supercubes past 3x3, whose reduction ignores which way the centres point
+export const hasSolver = (shape: Shape, supercube = false) =>
+  !isCuboid(shape) && toDims(shape)[0] >= 2 && toDims(shape)[0] <= (supercube ? 3 : MAX_SOLVER_SIZE);
+
+// Only the 2x2 solver is optimal, so only it can say how far from solved a
+// state really is
+export const hasExactDistance = (shape: Shape) => shape === 2;
+
+export interface Solution {
+  moves: Move[];
+  stage: string | null; // the reduction stage the first move is in, for 4x4 and up
+}
+
+export const solveCube = async (state: CubeState): Promise<Solution> => {
+  const response = await send({ kind: 'solve', state: serializeState(state) });
+  return 'moves' in response ? { moves: response.moves, stage: response.stage ?? null } : { moves: [], stage: null };
+};
+
+// The 2x2 and 3x3 solvers can scramble to a uniformly random state
+export const hasRandomStateScrambles = (size: number) => size === 2 || size === 3;
+
+export const randomStateScramble = async (size: number, seed: number): Promise<Move[]> => {
+  const response = await send({ kind: 'scramble', size, seed });
+  return 'moves' in response ? response.moves : [];
+};
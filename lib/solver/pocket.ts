@@ -0,0 +1,168 @@
+import { Move } from '../../types';
+import { CubeState, Face, Vec3, applyMove, createSolvedState, faceletIndexAt, faceletLocation, faceToMove, invertMoves } from '../cubeState';
+import { randomInt } from '../random';
+import { idbGet, idbSet } from '../idb';
+import { colourScheme } from './reduction';
+import { CORNER_FACELETS, readCorners, rankPermutation, twoPhaseToMoves, unrankPermutation } from './twoPhase';
+
+// God's-number-optimal 2x2 solver.
+//
+// With the DBL corner held still, U, R and F turns (9 moves in HTM) reach
+// every state, and a state is just the permutation of the other 7 corners and
+// the twist of 6 of them: 5040 * 729 = 3,674,160 positions. A breadth-first
+// distance table over all of them makes any solve a walk downhill to 0, and
+// doubles as an exact "moves from solved" count. The table takes a second or
+// two to build, so it is cached in IndexedDB between sessions.
+
+const N_PERM = 5040;
+const N_TWIST = 729;
+const N_STATES = N_PERM * N_TWIST;
+const N_MOVES = 9;
+const MOVE_FACES: Face[] = ['U', 'R', 'F'];
+const FREE_SLOTS = [0, 1, 2, 3, 4, 5, 7]; // every slot but DBL
+const CACHE_KEY = 'pocket-distances-v1';
+// Official scrambles skip states that are this close to solved
+const MIN_SCRAMBLE_DISTANCE = 4;
+
+// CORNER_FACELETS translated from 3x3 to 2x2 facelet indices
+const CORNER_SLOTS = CORNER_FACELETS.map(fs => fs.map(i => {
+  const { pos, normal } = faceletLocation(3, i);
+  return faceletIndexAt(2, pos.map(c => c / 2) as Vec3, normal);
+}));
+
+interface Corners {
+  cp: number[];
+  co: number[];
+}
+
+const encodePerm = (cp: number[]) => rankPermutation(FREE_SLOTS.map(slot => (cp[slot] === 7 ? 6 : cp[slot])));
+const decodePerm = (perm: number): number[] => {
+  const cp = new Array<number>(8).fill(6);
+  unrankPermutation(perm, 7).forEach((piece, k) => { cp[FREE_SLOTS[k]] = piece === 6 ? 7 : piece; });
+  return cp;
+};
+
+const encodeTwist = (co: number[]) => co.slice(0, 6).reduce((t, o) => t * 3 + o, 0);
+const decodeTwist = (twist: number): number[] => {
+  const co = new Array<number>(8).fill(0);
+  let sum = 0;
+  for (let i = 5; i >= 0; i--) {
+    co[i] = twist % 3;
+    sum += co[i];
+    twist = Math.floor(twist / 3);
+  }
+  co[7] = (3 - (sum % 3)) % 3;
+  return co;
+};
+
+const multiply = (a: Corners, b: Corners): Corners => ({
+  cp: b.cp.map(p => a.cp[p]),
+  co: b.cp.map((p, i) => (a.co[p] + b.co[i]) % 3),
+});
+
+let moveTables: { perm: Uint16Array; twist: Uint16Array } | null = null;
+let distances: Promise<Uint8Array> | null = null;
+
+const getMoveTables = () => {
+  if (moveTables) return moveTables;
+  const solved = createSolvedState(2);
+  const moveCorners: Corners[] = [];
+  MOVE_FACES.forEach(face => {
+    let state = solved;
+    for (let power = 0; power < 3; power++) {
+      state = applyMove(state, faceToMove(face, 2));
+      moveCorners.push(readCorners(state.facelets, CORNER_SLOTS));
+    }
+  });
+
+  const perm = new Uint16Array(N_PERM * N_MOVES);
+  for (let i = 0; i < N_PERM; i++) {
+    const c = { cp: decodePerm(i), co: new Array<number>(8).fill(0) };
+    moveCorners.forEach((m, k) => { perm[i * N_MOVES + k] = encodePerm(multiply(c, m).cp); });
+  }
+  const twist = new Uint16Array(N_TWIST * N_MOVES);
+  for (let i = 0; i < N_TWIST; i++) {
+    const c = { cp: [0, 1, 2, 3, 4, 5, 6, 7], co: decodeTwist(i) };
+    moveCorners.forEach((m, k) => { twist[i * N_MOVES + k] = encodeTwist(multiply(c, m).co); });
+  }
+  moveTables = { perm, twist };
+  return moveTables;
+};
+
+const nextIndex = (index: number, move: number) => {
+  const { perm, twist } = getMoveTables();
+  const p = Math.floor(index / N_TWIST);
+  const t = index % N_TWIST;
+  return perm[p * N_MOVES + move] * N_TWIST + twist[t * N_MOVES + move];
+};
+
+const buildDistances = () => {
+  const table = new Uint8Array(N_STATES).fill(255);
+  table[0] = 0;
+  let filled = 1;
+  for (let depth = 0; filled < N_STATES; depth++) {
+    for (let i = 0; i < N_STATES; i++) {
+      if (table[i] !== depth) continue;
+      for (let m = 0; m < N_MOVES; m++) {
+        const next = nextIndex(i, m);
+        if (table[next] === 255) {
+          table[next] = depth + 1;
+          filled++;
+        }
+      }
+    }
+  }
+  return table;
+};
+
+const loadDistances = async (): Promise<Uint8Array> => {
+  const cached = await idbGet<ArrayBuffer>(CACHE_KEY);
+  if (cached && cached.byteLength === N_STATES) return new Uint8Array(cached);
+  const table = buildDistances();
+  await idbSet(CACHE_KEY, table.buffer);
+  return table;
+};
+
+// Shared promise so overlapping requests wait for the same build
+const getDistances = () => {
+  if (!distances) distances = loadDistances();
+  return distances;
+};
+
+const toIndex = (state: CubeState) => {
+  if (state.size !== 2) throw new Error('Pocket solver only handles 2x2 cubes');
+  const colorFace = colourScheme(state);
+  const colors = Array.from(state.facelets, c => colorFace[c]);
+  const { cp, co } = readCorners(colors, CORNER_SLOTS);
+  return encodePerm(cp) * N_TWIST + encodeTwist(co);
+};
+
+// Walks downhill from a state index to solved
+const solveIndex = (table: Uint8Array, start: number): number[] => {
+  let index = start;
+  const solution: number[] = [];
+  while (table[index] > 0) {
+    const distance = table[index];
+    const move = Array.from({ length: N_MOVES }, (_, m) => m).find(m => table[nextIndex(index, m)] === distance - 1)!;
+    solution.push(move);
+    index = nextIndex(index, move);
+  }
+  return solution;
+};
+
+// Moves 0-8 are U, R, F in the same numbering the two-phase solver uses
+export const solvePocket = async (state: CubeState): Promise<Move[]> => {
+  const table = await getDistances();
+  return twoPhaseToMoves(solveIndex(table, toIndex(state)), 2);
+};
+
+// Random-state scramble: the inverse of an optimal solution to a uniformly
+// random state
+export const scramblePocket = async (random: () => number): Promise<Move[]> => {
+  const table = await getDistances();
+  let index: number;
+  do {
+    index = randomInt(random, N_STATES);
+  } while (table[index] < MIN_SCRAMBLE_DISTANCE);
+  return invertMoves(twoPhaseToMoves(solveIndex(table, index), 2));
+};
@@ -0,0 +1,450 @@
+import { Axis, Move } from '../../types';
+import {
+  CubeState,
+  Face,
+  FACES,
+  FACE_FRAMES,
+  Vec3,
+  createSolvedState,
+  faceletIndexAt,
+  faceletLocation,
+  faceToMove,
+  getMovePermutation,
+  invertMoves,
+} from '../cubeState';
+import { solveTwoPhase, toCubieCube, twoPhaseToMoves } from './twoPhase';
+
+// Reduction solver for 4x4 and up.
+//
+// The cube is reduced in an order that never needs to undo earlier work:
+//   1. Parity: every wing orbit whose permutation is odd gets one inner slice
+//      quarter turn. Outer turns and commutators are even on each orbit, so
+//      this is the only place OLL/PLL parity can be fixed and afterwards it
+//      cannot come back.
+//   2. 3x3 stage: corners (plus midges and fixed centres on odd sizes) are
+//      solved as a virtual 3x3 with the two-phase solver, using outer turns.
+//   3. Centres: pure 3-cycles of the form [S1 S2 S1', Y] (inner slices S1, S2
+//      and an outer face turn Y), which leave corners and edges untouched.
+//   4. Edges: pure wing 3-cycles of the form [S, X Y X'] (inner slice S and
+//      outer turns X, Y), which leave everything else untouched.
+// The commutator libraries are generated by brute force against the facelet
+// model and filtered on their actual effect, so nothing is hand-transcribed.
+
+const AXES: Axis[] = ['x', 'y', 'z'];
+
+type StickerKind = 'corner' | 'edge' | 'midge' | 'center' | 'fixedCenter';
+
+interface Geometry {
+  size: number;
+  kinds: StickerKind[];
+  // All stickers of the cubie each facelet belongs to
+  cubieOf: number[][];
+}
+
+// A commutator and its effect: the sticker at from[i] ends up at to[i], and
+// the piece at pieces[k] (by lowest sticker index) moves to pieces[k + 1]
+interface Cycle {
+  from: number[];
+  to: number[];
+  pieces: number[];
+  moves: Move[];
+}
+
+const geometryCache = new Map<number, Geometry>();
+
+const getGeometry = (size: number): Geometry => {
+  let geometry = geometryCache.get(size);
+  if (geometry) return geometry;
+  const total = 6 * size * size;
+  const kinds: StickerKind[] = [];
+  const cubieOf: number[][] = [];
+  for (let i = 0; i < total; i++) {
+    const { pos } = faceletLocation(size, i);
+    const onSurface = pos.filter(c => Math.abs(c) === size - 1).length;
+    if (onSurface === 3) kinds.push('corner');
+    else if (onSurface === 2) kinds.push(pos.some(c => c === 0) ? 'midge' : 'edge');
+    else kinds.push(pos.filter(c => c === 0).length === 2 ? 'fixedCenter' : 'center');
+    cubieOf.push(stickersAt(size, pos));
+  }
+  geometry = { size, kinds, cubieOf };
+  geometryCache.set(size, geometry);
+  return geometry;
+};
+
+const stickersAt = (size: number, pos: Vec3): number[] => {
+  const stickers: number[] = [];
+  pos.forEach((c, a) => {
+    if (Math.abs(c) !== size - 1) return;
+    const normal: Vec3 = [0, 0, 0];
+    normal[a] = Math.sign(c);
+    stickers.push(faceletIndexAt(size, pos, normal));
+  });
+  return stickers;
+};
+
+const faceOf = (size: number, index: number) => Math.floor(index / (size * size));
+
+// --- Permutations ---
+
+// p[i] is the slot whose sticker ends up in slot i after the sequence
+const sequencePermutation = (size: number, moves: Move[]): Int32Array => {
+  let p = new Int32Array(6 * size * size);
+  for (let i = 0; i < p.length; i++) p[i] = i;
+  moves.forEach(move => {
+    const perm = getMovePermutation(size, move);
+    const next = p.slice();
+    for (let i = 0; i < perm.length; i += 2) next[perm[i + 1]] = p[perm[i]];
+    p = next;
+  });
+  return p;
+};
+
+const applyCycle = (colors: Uint8Array, cycle: Cycle) => {
+  const moved = cycle.from.map(f => colors[f]);
+  cycle.to.forEach((t, i) => { colors[t] = moved[i]; });
+};
+
+const applyMovesToColors = (size: number, colors: Uint8Array, moves: Move[]) => {
+  const p = sequencePermutation(size, moves);
+  const before = colors.slice();
+  for (let i = 0; i < colors.length; i++) colors[i] = before[p[i]];
+};
+
+const outerTurns = (size: number): Move[][] => {
+  const turns: Move[][] = [];
+  FACES.forEach(face => {
+    const move = faceToMove(face, size);
+    turns.push([move], [move, move], [faceToMove(face, size, true)]);
+  });
+  return turns;
+};
+
+const innerSlices = (size: number, includeMiddle: boolean): Move[] => {
+  const slices: Move[] = [];
+  AXES.forEach(axis => {
+    for (let layer = 1; layer < size - 1; layer++) {
+      if (!includeMiddle && 2 * layer === size - 1) continue;
+      slices.push({ axis, layer, direction: 1 }, { axis, layer, direction: -1 });
+    }
+  });
+  return slices;
+};
+
+// Base commutators whose net effect only touches stickers of the wanted kind
+// and cycles exactly three pieces
+const findPureCycles = (size: number, candidates: Move[][], kind: StickerKind, stickersPerPiece: number) => {
+  const { kinds } = getGeometry(size);
+  const cycles: { from: number[]; to: number[]; moves: Move[] }[] = [];
+  candidates.forEach(moves => {
+    const p = sequencePermutation(size, moves);
+    const from: number[] = [];
+    const to: number[] = [];
+    for (let i = 0; i < p.length; i++) {
+      if (p[i] === i) continue;
+      if (kinds[i] !== kind) return;
+      from.push(p[i]);
+      to.push(i);
+    }
+    if (to.length === 3 * stickersPerPiece) cycles.push({ from, to, moves });
+  });
+  return cycles;
+};
+
+// Closes the base cycles under conjugation by single quarter turns. A
+// conjugate S C S' is as pure as C, and since every piece orbit can be
+// evenly permuted at will, the closure contains every 3-cycle of every orbit
+// the base touches. That completeness is what guarantees the greedy stage
+// below can always make progress.
+const closeLibrary = (size: number, base: ReturnType<typeof findPureCycles>): Cycle[] => {
+  const { cubieOf } = getGeometry(size);
+  const total = 6 * size * size;
+  const rep = (s: number) => Math.min(...cubieOf[s]);
+  const keyOf = (pieces: number[]) => {
+    const start = pieces.indexOf(Math.min(...pieces));
+    return [0, 1, 2].reduce((k, i) => k * total + pieces[(start + i) % 3], 0);
+  };
+
+  const seen = new Set<number>();
+  const library: Cycle[] = [];
+  const add = (from: number[], to: number[], pieces: number[], moves: Move[]) => {
+    const key = keyOf(pieces);
+    if (seen.has(key)) return;
+    seen.add(key);
+    library.push({ from, to, pieces, moves });
+  };
+
+  base.forEach(({ from, to, moves }) => {
+    // Piece-level cycle order, following one sticker per piece
+    const next = new Map<number, number>();
+    from.forEach((f, i) => next.set(rep(f), rep(to[i])));
+    const first = next.keys().next().value as number;
+    add(from, to, [first, next.get(first)!, next.get(next.get(first)!)!], moves);
+  });
+
+  const turns: Move[] = [];
+  AXES.forEach(axis => {
+    for (let layer = 0; layer < size; layer++) {
+      turns.push({ axis, layer, direction: 1 }, { axis, layer, direction: -1 });
+    }
+  });
+  const perms = turns.map(turn => sequencePermutation(size, [turn]));
+  const inverses = invertMoves(turns).reverse();
+
+  for (let i = 0; i < library.length; i++) {
+    const cycle = library[i];
+    perms.forEach((q, k) => {
+      const pieces = cycle.pieces.map(p => rep(q[p]));
+      if (seen.has(keyOf(pieces))) return;
+      add(
+        cycle.from.map(f => q[f]),
+        cycle.to.map(t => q[t]),
+        pieces,
+        [turns[k], ...cycle.moves, inverses[k]]
+      );
+    });
+  }
+  return library;
+};
+
+const commutator = (a: Move[], b: Move[]) => [...a, ...b, ...invertMoves(a), ...invertMoves(b)];
+
+const centerLibraryCache = new Map<number, Cycle[]>();
+const wingLibraryCache = new Map<number, Cycle[]>();
+
+const getCenterLibrary = (size: number) => {
+  let library = centerLibraryCache.get(size);
+  if (library) return library;
+  const slices = innerSlices(size, true);
+  const faces = outerTurns(size).filter(t => t.length === 1);
+  const candidates: Move[][] = [];
+  slices.forEach(s1 => slices.forEach(s2 => {
+    if (s2.axis === s1.axis) return;
+    faces.forEach(([y]) => {
+      // The face turn must be parallel to the second slice to meet the
+      // inserted piece in exactly one spot
+      if (y.axis !== s2.axis) return;
+      candidates.push(commutator([s1, s2, ...invertMoves([s1])], [y]));
+    });
+  }));
+  library = closeLibrary(size, findPureCycles(size, candidates, 'center', 1));
+  centerLibraryCache.set(size, library);
+  return library;
+};
+
+const getWingLibrary = (size: number) => {
+  let library = wingLibraryCache.get(size);
+  if (library) return library;
+  const turns = outerTurns(size);
+  const candidates: Move[][] = [];
+  innerSlices(size, false).forEach(s => turns.forEach(x => turns.forEach(y => {
+    if (x[0].axis === y[0].axis) return;
+    candidates.push(commutator([s], [...x, ...y, ...invertMoves(x)]));
+  })));
+  library = closeLibrary(size, findPureCycles(size, candidates, 'edge', 2));
+  wingLibraryCache.set(size, library);
+  return library;
+};
+
+// --- Colour scheme ---
+
+// Decides which colour belongs on which face. Odd cubes follow their fixed
+// centres; even cubes have none, so the corner in the DBL slot sets the
+// scheme. Returns colorFace[colour] = face index.
+export const colourScheme = (state: CubeState): number[] => {
+  const { size, facelets } = state;
+  const colorFace = new Array<number>(6).fill(-1);
+  if (size % 2 === 1) {
+    const mid = (size - 1) / 2;
+    for (let f = 0; f < 6; f++) colorFace[facelets[f * size * size + mid * size + mid]] = f;
+  } else {
+    const n = size - 1;
+    const pos: Vec3 = [-n, -n, -n];
+    (['D', 'B', 'L'] as Face[]).forEach(face => {
+      const f = FACES.indexOf(face);
+      const color = facelets[faceletIndexAt(size, pos, FACE_FRAMES[face].normal)];
+      colorFace[color] = f;
+      colorFace[(color + 3) % 6] = (f + 3) % 6;
+    });
+  }
+  if (colorFace.includes(-1)) throw new Error('Cube colours do not form a valid scheme');
+  return colorFace;
+};
+
+// --- Piece identity ---
+
+// Where the cubie at `pos` belongs, derived from its sticker colours: the
+// rotation taking its sticker normals to the normals of their colours' faces
+// also takes its current position to its home position.
+const homePosition = (size: number, colors: Uint8Array, pos: Vec3): Vec3 => {
+  const stickers = stickersAt(size, pos);
+  const columns: Vec3[] = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const normals = stickers.map(s => faceletLocation(size, s).normal);
+  const homes = stickers.map(s => FACE_FRAMES[FACES[colors[s]]].normal);
+  const cross = (a: Vec3, b: Vec3): Vec3 => [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+  ];
+  normals.push(cross(normals[0], normals[1]));
+  homes.push(cross(homes[0], homes[1]));
+  normals.slice(0, 3).forEach((n, k) => {
+    const a = n.findIndex(c => c !== 0);
+    columns[a] = homes[k].map(c => c * n[a]) as Vec3;
+  });
+  return [0, 1, 2].map(i => columns[0][i] * pos[0] + columns[1][i] * pos[1] + columns[2][i] * pos[2]) as Vec3;
+};
+
+const isOddPermutation = (size: number, colors: Uint8Array, positions: Vec3[]) => {
+  const key = (p: Vec3) => p.join(',');
+  const target = new Map(positions.map(p => [key(p), key(homePosition(size, colors, p))]));
+  const visited = new Set<string>();
+  let parity = 0;
+  target.forEach((_, start) => {
+    if (visited.has(start)) return;
+    let length = 0;
+    for (let k = start; !visited.has(k); k = target.get(k)!) {
+      visited.add(k);
+      length++;
+    }
+    parity ^= (length - 1) & 1;
+  });
+  return parity === 1;
+};
+
+// Positions of every cubie of one kind, in doubled coordinates
+const cubiePositions = (size: number, kind: StickerKind): Vec3[] => {
+  const { kinds } = getGeometry(size);
+  const seen = new Set<string>();
+  const positions: Vec3[] = [];
+  kinds.forEach((k, i) => {
+    if (k !== kind) return;
+    const { pos } = faceletLocation(size, i);
+    const key = pos.join(',');
+    if (seen.has(key)) return;
+    seen.add(key);
+    positions.push(pos);
+  });
+  return positions;
+};
+
+// --- Stages ---
+
+const fixWingParity = (size: number, colors: Uint8Array, out: Move[]) => {
+  const wings = cubiePositions(size, 'edge');
+  for (let layer = 1; layer < Math.floor(size / 2); layer++) {
+    const coord = 2 * layer - (size - 1);
+    const orbit = wings.filter(p => p.some(c => Math.abs(c) === Math.abs(coord)));
+    if (!isOddPermutation(size, colors, orbit)) continue;
+    const move: Move = { axis: 'x', layer, direction: 1 };
+    applyMovesToColors(size, colors, [move]);
+    out.push(move);
+  }
+};
+
+const solveOuterLayers = (size: number, colors: Uint8Array, out: Move[]) => {
+  const moves: Move[] = [];
+  if (size % 2 === 0 && isOddPermutation(size, colors, cubiePositions(size, 'corner'))) {
+    // Corners alone may be in an odd permutation, which no 3x3 with solved
+    // edges could have; one quarter turn fixes that
+    moves.push(faceToMove('U', size));
+    applyMovesToColors(size, colors, moves);
+  }
+
+  const virtual = createSolvedState(3);
+  for (let i = 0; i < virtual.facelets.length; i++) {
+    const { pos, normal } = faceletLocation(3, i);
+    const isCorner = pos.every(c => c !== 0);
+    if (!isCorner && size % 2 === 0) continue;
+    const bigPos = pos.map(c => (c * (size - 1)) / 2) as Vec3;
+    virtual.facelets[i] = colors[faceletIndexAt(size, bigPos, normal)];
+  }
+  const solution = twoPhaseToMoves(solveTwoPhase(toCubieCube(virtual)), size);
+  applyMovesToColors(size, colors, solution);
+  out.push(...moves, ...solution);
+};
+
+// Greedily applies library 3-cycles, only ever taking one that solves at
+// least one more piece without unsolving any.
+const solveWithCycles = (size: number, colors: Uint8Array, library: Cycle[], kind: StickerKind, out: Move[]) => {
+  const { kinds, cubieOf } = getGeometry(size);
+  const pieceOf = new Map<number, number>();
+  const pieces: number[][] = [];
+  kinds.forEach((k, i) => {
+    if (k !== kind || pieceOf.has(i)) return;
+    const stickers = cubieOf[i].filter(s => kinds[s] === kind);
+    stickers.forEach(s => pieceOf.set(s, pieces.length));
+    pieces.push(stickers);
+  });
+
+  const cyclesByPiece: Cycle[][] = pieces.map(() => []);
+  library.forEach(cycle => {
+    new Set(cycle.to.map(t => pieceOf.get(t)!)).forEach(p => cyclesByPiece[p].push(cycle));
+  });
+
+  const isSolvedPiece = (piece: number, color: (s: number) => number) =>
+    pieces[piece].every(s => color(s) === faceOf(size, s));
+
+  const gainOf = (cycle: Cycle) => {
+    const moved = new Map<number, number>();
+    cycle.to.forEach((t, i) => moved.set(t, colors[cycle.from[i]]));
+    const after = (s: number) => (moved.has(s) ? moved.get(s)! : colors[s]);
+    let gain = 0;
+    for (const p of new Set(cycle.to.map(t => pieceOf.get(t)!))) {
+      const was = isSolvedPiece(p, s => colors[s]);
+      const now = isSolvedPiece(p, after);
+      if (was && !now) return -1;
+      if (now && !was) gain++;
+    }
+    return gain;
+  };
+
+  for (;;) {
+    const unsolved = pieces.map((_, p) => p).filter(p => !isSolvedPiece(p, s => colors[s]));
+    if (unsolved.length === 0) return;
+    let best: Cycle | null = null;
+    let bestGain = 0;
+    for (const p of unsolved) {
+      for (const cycle of cyclesByPiece[p]) {
+        const gain = gainOf(cycle);
+        if (gain > bestGain) {
+          best = cycle;
+          bestGain = gain;
+          if (gain === 3) break;
+        }
+      }
+      if (best) break;
+    }
+    if (!best) throw new Error(`Reduction got stuck on ${kind} pieces`);
+    applyCycle(colors, best);
+    out.push(...best.moves);
+  }
+};
+
+// One stage of a reduction solve, with a description fit for hints
+export interface ReductionStep {
+  stage: string;
+  moves: Move[];
+}
+
+export const solveBigCube = (state: CubeState): ReductionStep[] => {
+  const { size } = state;
+  if (size < 4) throw new Error('Reduction solver needs a 4x4 or larger');
+
+  const colorFace = colourScheme(state);
+  const colors = Uint8Array.from(state.facelets, c => colorFace[c]);
+  const counts = new Array<number>(6).fill(0);
+  colors.forEach(c => counts[c]++);
+  if (counts.some(c => c !== size * size)) throw new Error(`Every colour must appear exactly ${size * size} times`);
+
+  const steps: ReductionStep[] = [
+    { stage: 'Fixing edge parity', moves: [] },
+    { stage: size % 2 === 0 ? 'Solving the corners like a 3x3' : 'Solving the corners and middle edges like a 3x3', moves: [] },
+    { stage: 'Building the centres', moves: [] },
+    { stage: 'Pairing the edges', moves: [] },
+  ];
+  fixWingParity(size, colors, steps[0].moves);
+  solveOuterLayers(size, colors, steps[1].moves);
+  solveWithCycles(size, colors, getCenterLibrary(size), 'center', steps[2].moves);
+  solveWithCycles(size, colors, getWingLibrary(size), 'edge', steps[3].moves);
+  return steps;
+};
@@ -0,0 +1,63 @@
+import { Move } from '../../types';
+import { applyMoves, combineMoves, deserializeState, shapeName } from '../cubeState';
+import { createRandom } from '../random';
+import { scramble3x3, solve3x3 } from './twoPhase';
+import { solveBigCube } from './reduction';
+import { scramblePocket, solvePocket } from './pocket';
+import { solveCenterTwists } from './supercube';
+
+// Runs the solvers off the main thread. Pruning tables are built on the first
+// request and stay cached for the lifetime of the worker.
+
+export type SolveTask =
+  | { kind: 'solve'; state: string } // serializeState output
+  | { kind: 'scramble'; size: number; seed: number };
+
+export type SolveRequest = SolveTask & { id: number };
+
+export type SolveResponse =
+  | { id: number; moves: Move[]; stage?: string }
+  | { id: number; error: string };
+
+// A solution, and for big cubes the reduction stage its first move is in
+const solve = async (serialized: string): Promise<{ moves: Move[]; stage?: string }> => {
+  const state = deserializeState(serialized);
+  if (state.dims) throw new Error(`No solver for ${shapeName(state.dims)} cuboids`);
+  // A 2x2 has no centres, so its stickers point the right way once solved
+  if (state.size === 2) return { moves: await solvePocket(state) };
+  if (state.size === 3 && state.twists) {
+    const moves = solve3x3(state);
+    return { moves: [...moves, ...solveCenterTwists(applyMoves(state, moves))] };
+  }
+  if (state.size === 3) return { moves: solve3x3(state) };
+  if (state.twists) throw new Error(`No solver for ${state.size}x${state.size} supercubes`);
+  if (state.size >= 4) {
+    // The reduction works in single-layer quarter turns; merge them into
+    // blocks stage by stage, so the first stage with moves left is the
+    // one the solution starts in
+    const steps = solveBigCube(state).map(step => ({ ...step, moves: combineMoves(step.moves) }));
+    return { moves: steps.flatMap(step => step.moves), stage: steps.find(step => step.moves.length > 0)?.stage };
+  }
+  throw new Error(`No solver for ${state.size}x${state.size} cubes`);
+};
+
+// Random-state scrambles need the solvers' tables, so they are made here too
+const scramble = async (size: number, seed: number): Promise<Move[]> => {
+  const random = createRandom(seed);
+  if (size === 2) return scramblePocket(random);
+  if (size === 3) return scramble3x3(random);
+  throw new Error(`No random-state scrambles for ${size}x${size} cubes`);
+};
+
+self.addEventListener('message', async (event: MessageEvent<SolveRequest>) => {
+  const request = event.data;
+  const { id } = request;
+  let response: SolveResponse;
+  try {
+    if (request.kind === 'scramble') response = { id, moves: await scramble(request.size, request.seed) };
+    else response = { id, ...(await solve(request.state)) };
+  } catch (e) {
+    response = { id, error: e instanceof Error ? e.message : String(e) };
+  }
+  self.postMessage(response);
+});
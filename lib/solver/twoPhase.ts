@@ -0,0 +1,476 @@
+import { Move } from '../../types';
+import { CubeState, Face, FACES, applyMove, createSolvedState, faceToMove, invertMoves } from '../cubeState';
+import { randomInt } from '../random';
+
+// Kociemba two-phase solver for the 3x3.
+//
+// Phase 1 brings the cube into the subgroup <U, D, R2, L2, F2, B2> (all
+// orientations solved, E-slice edges in the E slice); phase 2 solves it using
+// only moves of that subgroup. Both phases are IDA* searches over coordinate
+// move tables with pruning tables built once on first use (about a second,
+// which is why this runs inside the solver worker).
+
+// --- Cubie level ---
+
+// Corners: URF UFL ULB UBR DFR DLF DBL DRB
+// Edges:   UR UF UL UB DR DF DL DB FR FL BL BR
+export interface CubieCube {
+  cp: number[];
+  co: number[];
+  ep: number[];
+  eo: number[];
+}
+
+// Facelet indices (URFDLB layout of a 3x3 CubeState) of every corner and edge
+// slot, with the U/D sticker (or the U/D/F/B one for E-slice edges) first.
+export const CORNER_FACELETS = [
+  [8, 9, 20], [6, 18, 38], [0, 36, 47], [2, 45, 11],
+  [29, 26, 15], [27, 44, 24], [33, 53, 42], [35, 17, 51],
+];
+const EDGE_FACELETS = [
+  [5, 10], [7, 19], [3, 37], [1, 46], [32, 16], [28, 25],
+  [30, 43], [34, 52], [23, 12], [21, 41], [50, 39], [48, 14],
+];
+const CORNER_COLORS = CORNER_FACELETS.map(fs => fs.map(i => Math.floor(i / 9)));
+const EDGE_COLORS = EDGE_FACELETS.map(fs => fs.map(i => Math.floor(i / 9)));
+
+const identityCube = (): CubieCube => ({
+  cp: [0, 1, 2, 3, 4, 5, 6, 7],
+  co: [0, 0, 0, 0, 0, 0, 0, 0],
+  ep: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+  eo: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+});
+
+// a * b: apply a, then b
+const multiply = (a: CubieCube, b: CubieCube): CubieCube => ({
+  cp: b.cp.map(p => a.cp[p]),
+  co: b.cp.map((p, i) => (a.co[p] + b.co[i]) % 3),
+  ep: b.ep.map(p => a.ep[p]),
+  eo: b.ep.map((p, i) => (a.eo[p] + b.eo[i]) % 2),
+});
+
+const permutationParity = (p: number[]) => {
+  let parity = 0;
+  for (let i = 0; i < p.length; i++) {
+    for (let j = i + 1; j < p.length; j++) {
+      if (p[j] < p[i]) parity ^= 1;
+    }
+  }
+  return parity;
+};
+
+// Reads corner permutation and orientation from face-relative colours, given
+// the facelet indices of each corner slot in CORNER_FACELETS order. Shared
+// with the 2x2 solver, whose corners use the same slot and sticker order.
+export const readCorners = (colors: ArrayLike<number>, cornerFacelets: number[][]) => {
+  const cp: number[] = [];
+  const co: number[] = [];
+  for (let i = 0; i < 8; i++) {
+    const fs = cornerFacelets[i];
+    const ori = [0, 1, 2].find(o => colors[fs[o]] === 0 || colors[fs[o]] === 3);
+    if (ori === undefined) throw new Error('Corner without a U or D sticker');
+    const c1 = colors[fs[(ori + 1) % 3]];
+    const c2 = colors[fs[(ori + 2) % 3]];
+    const j = CORNER_COLORS.findIndex(cc => cc[1] === c1 && cc[2] === c2);
+    if (j < 0) throw new Error('Impossible corner colour combination');
+    cp.push(j);
+    co.push(ori);
+  }
+  if (new Set(cp).size !== 8) throw new Error('Duplicate corner pieces');
+  if (co.reduce((s, o) => s + o, 0) % 3 !== 0) throw new Error('A corner is twisted');
+  return { cp, co };
+};
+
+// Converts a 3x3 facelet state to cubies. Colours are read relative to the
+// centres, so a cube whose middle slices have been turned is solved in
+// whatever orientation its centres are in. Throws on impossible states.
+export const toCubieCube = (state: CubeState): CubieCube => {
+  if (state.size !== 3) throw new Error('Two-phase solver only handles 3x3 cubes');
+
+  const centerToFace = new Array<number>(6).fill(-1);
+  for (let f = 0; f < 6; f++) centerToFace[state.facelets[f * 9 + 4]] = f;
+  if (centerToFace.includes(-1)) throw new Error('Cube has duplicate centre colours');
+
+  const colors = Array.from(state.facelets, c => centerToFace[c]);
+  const counts = new Array<number>(6).fill(0);
+  colors.forEach(c => counts[c]++);
+  if (counts.some(c => c !== 9)) throw new Error('Every colour must appear exactly 9 times');
+
+  const cube = { ...identityCube(), ...readCorners(colors, CORNER_FACELETS) };
+  for (let i = 0; i < 12; i++) {
+    const [a, b] = EDGE_FACELETS[i].map(f => colors[f]);
+    const j = EDGE_COLORS.findIndex(ec => (ec[0] === a && ec[1] === b) || (ec[0] === b && ec[1] === a));
+    if (j < 0) throw new Error('Impossible edge colour combination');
+    cube.ep[i] = j;
+    cube.eo[i] = EDGE_COLORS[j][0] === a ? 0 : 1;
+  }
+
+  if (new Set(cube.ep).size !== 12) throw new Error('Duplicate edge pieces');
+  if (cube.eo.reduce((s, o) => s + o, 0) % 2 !== 0) throw new Error('An edge is flipped');
+  if (permutationParity(cube.cp) !== permutationParity(cube.ep)) {
+    throw new Error('Two pieces are swapped');
+  }
+  return cube;
+};
+
+// --- Coordinates ---
+
+const N_TWIST = 2187;
+const N_FLIP = 2048;
+const N_SLICE = 495;
+const N_PERM8 = 40320;
+const N_SLICE_PERM = 24;
+const N_MOVES = 18;
+
+// Move m is face FACES[m / 3] turned (m % 3) + 1 quarter turns clockwise
+const PHASE2_MOVES = [0, 1, 2, 4, 7, 9, 10, 11, 13, 16];
+
+const binomial = (n: number, k: number) => {
+  if (k < 0 || k > n) return 0;
+  let r = 1;
+  for (let i = 0; i < k; i++) r = (r * (n - i)) / (i + 1);
+  return r;
+};
+
+export const rankPermutation = (p: number[]) => {
+  let idx = 0;
+  for (let i = 0; i < p.length; i++) {
+    let smaller = 0;
+    for (let j = i + 1; j < p.length; j++) if (p[j] < p[i]) smaller++;
+    idx = idx * (p.length - i) + smaller;
+  }
+  return idx;
+};
+
+export const unrankPermutation = (idx: number, n: number) => {
+  const digits = new Array<number>(n);
+  for (let i = n - 1; i >= 0; i--) {
+    digits[i] = idx % (n - i);
+    idx = Math.floor(idx / (n - i));
+  }
+  const pool = Array.from({ length: n }, (_, i) => i);
+  return digits.map(d => pool.splice(d, 1)[0]);
+};
+
+const getTwist = (c: CubieCube) => c.co.slice(0, 7).reduce((t, o) => t * 3 + o, 0);
+const setTwist = (c: CubieCube, twist: number) => {
+  let sum = 0;
+  for (let i = 6; i >= 0; i--) {
+    c.co[i] = twist % 3;
+    sum += c.co[i];
+    twist = Math.floor(twist / 3);
+  }
+  c.co[7] = (3 - (sum % 3)) % 3;
+};
+
+const getFlip = (c: CubieCube) => c.eo.slice(0, 11).reduce((f, o) => f * 2 + o, 0);
+const setFlip = (c: CubieCube, flip: number) => {
+  let sum = 0;
+  for (let i = 10; i >= 0; i--) {
+    c.eo[i] = flip % 2;
+    sum += c.eo[i];
+    flip = Math.floor(flip / 2);
+  }
+  c.eo[11] = sum % 2;
+};
+
+// Which 4 of the 12 edge slots hold E-slice edges (FR FL BL BR), 0 when solved
+const getSlice = (c: CubieCube) => {
+  let a = 0;
+  let x = 0;
+  for (let j = 11; j >= 0; j--) {
+    if (c.ep[j] >= 8) {
+      a += binomial(11 - j, x + 1);
+      x++;
+    }
+  }
+  return a;
+};
+const setSlice = (c: CubieCube, slice: number) => {
+  c.ep.fill(-1);
+  let x = 4;
+  for (let j = 0; j < 12; j++) {
+    if (slice - binomial(11 - j, x) >= 0) {
+      c.ep[j] = 12 - x;
+      slice -= binomial(11 - j, x);
+      x--;
+    }
+  }
+  let other = 0;
+  for (let j = 0; j < 12; j++) if (c.ep[j] === -1) c.ep[j] = other++;
+};
+
+const getCornerPerm = (c: CubieCube) => rankPermutation(c.cp);
+const getUDEdgePerm = (c: CubieCube) => rankPermutation(c.ep.slice(0, 8));
+const getSlicePerm = (c: CubieCube) => rankPermutation(c.ep.slice(8).map(e => e - 8));
+
+// --- Tables ---
+
+interface Tables {
+  moveCubes: CubieCube[];
+  twistMove: Uint16Array;
+  flipMove: Uint16Array;
+  sliceMove: Uint16Array;
+  cornerMove: Uint16Array;
+  udEdgeMove: Uint16Array;
+  slicePermMove: Uint16Array;
+  twistPrune: Int8Array;
+  flipPrune: Int8Array;
+  cornerPrune: Int8Array;
+  udEdgePrune: Int8Array;
+}
+
+let tables: Tables | null = null;
+
+// The six face turns as cubie cubes, derived from the facelet model so the
+// two can never disagree about what "R" means.
+const buildMoveCubes = () => {
+  const solved = createSolvedState(3);
+  const moveCubes: CubieCube[] = [];
+  FACES.forEach(face => {
+    let state = solved;
+    for (let power = 0; power < 3; power++) {
+      state = applyMove(state, faceToMove(face, 3));
+      moveCubes.push(toCubieCube(state));
+    }
+  });
+  return moveCubes;
+};
+
+const buildMoveTable = (
+  size: number,
+  moves: number[],
+  set: (c: CubieCube, coord: number) => void,
+  get: (c: CubieCube) => number,
+  moveCubes: CubieCube[]
+) => {
+  const table = new Uint16Array(size * N_MOVES);
+  for (let coord = 0; coord < size; coord++) {
+    const c = identityCube();
+    set(c, coord);
+    moves.forEach(m => {
+      table[coord * N_MOVES + m] = get(multiply(c, moveCubes[m]));
+    });
+  }
+  return table;
+};
+
+// Breadth-first distance to solved over the product of a slice coordinate and
+// another coordinate, indexed sliceCoord * size + coord.
+const buildPruneTable = (
+  sliceSize: number,
+  size: number,
+  sliceMove: Uint16Array,
+  coordMove: Uint16Array,
+  moves: number[]
+) => {
+  const table = new Int8Array(sliceSize * size).fill(-1);
+  table[0] = 0;
+  let filled = 1;
+  for (let depth = 0; filled < table.length; depth++) {
+    for (let i = 0; i < table.length; i++) {
+      if (table[i] !== depth) continue;
+      const s = Math.floor(i / size);
+      const c = i % size;
+      for (const m of moves) {
+        const next = sliceMove[s * N_MOVES + m] * size + coordMove[c * N_MOVES + m];
+        if (table[next] === -1) {
+          table[next] = depth + 1;
+          filled++;
+        }
+      }
+    }
+  }
+  return table;
+};
+
+export const initTwoPhaseTables = (): Tables => {
+  if (tables) return tables;
+  const moveCubes = buildMoveCubes();
+  const allMoves = Array.from({ length: N_MOVES }, (_, i) => i);
+
+  const twistMove = buildMoveTable(N_TWIST, allMoves, setTwist, getTwist, moveCubes);
+  const flipMove = buildMoveTable(N_FLIP, allMoves, setFlip, getFlip, moveCubes);
+  const sliceMove = buildMoveTable(N_SLICE, allMoves, setSlice, getSlice, moveCubes);
+  const cornerMove = buildMoveTable(
+    N_PERM8, PHASE2_MOVES, (c, i) => { c.cp = unrankPermutation(i, 8); }, getCornerPerm, moveCubes
+  );
+  const udEdgeMove = buildMoveTable(
+    N_PERM8, PHASE2_MOVES, (c, i) => { c.ep = [...unrankPermutation(i, 8), 8, 9, 10, 11]; }, getUDEdgePerm, moveCubes
+  );
+  const slicePermMove = buildMoveTable(
+    N_SLICE_PERM, PHASE2_MOVES,
+    (c, i) => { c.ep = [0, 1, 2, 3, 4, 5, 6, 7, ...unrankPermutation(i, 4).map(e => e + 8)]; },
+    getSlicePerm, moveCubes
+  );
+
+  tables = {
+    moveCubes,
+    twistMove,
+    flipMove,
+    sliceMove,
+    cornerMove,
+    udEdgeMove,
+    slicePermMove,
+    twistPrune: buildPruneTable(N_SLICE, N_TWIST, sliceMove, twistMove, allMoves),
+    flipPrune: buildPruneTable(N_SLICE, N_FLIP, sliceMove, flipMove, allMoves),
+    cornerPrune: buildPruneTable(N_SLICE_PERM, N_PERM8, slicePermMove, cornerMove, PHASE2_MOVES),
+    udEdgePrune: buildPruneTable(N_SLICE_PERM, N_PERM8, slicePermMove, udEdgeMove, PHASE2_MOVES),
+  };
+  return tables;
+};
+
+// --- Search ---
+
+export interface TwoPhaseOptions {
+  // Stop as soon as a solution of at most this many moves (HTM) is found
+  targetLength?: number;
+  // Return the best solution found so far after this many milliseconds
+  timeoutMs?: number;
+  // Or after visiting this many search nodes, which unlike the timeout gives
+  // the same result on every machine
+  nodeLimit?: number;
+}
+
+// Faces are skipped if equal to the previous face, or if they are the
+// opposite face of the previous one and come first in URFDLB order (so that
+// commuting pairs like U D are only searched one way round).
+const isRedundant = (face: number, lastFace: number) =>
+  lastFace >= 0 && (face === lastFace || face === lastFace - 3);
+
+// Solves a 3x3 and returns face turns as (face index, quarter turns) pairs
+export const solveTwoPhase = (cube: CubieCube, options: TwoPhaseOptions = {}): number[] => {
+  const t = initTwoPhaseTables();
+  const targetLength = options.targetLength ?? 21;
+  const deadline = Date.now() + (options.timeoutMs ?? 3000);
+  const nodeLimit = options.nodeLimit ?? Infinity;
+  let nodes = 0;
+
+  let best: number[] | null = null;
+  const phase1: number[] = [];
+  const phase2: number[] = [];
+
+  const searchPhase2 = (corner: number, udEdge: number, slicePerm: number, depth: number, lastFace: number): boolean => {
+    nodes++;
+    if (depth === 0) return corner === 0 && udEdge === 0 && slicePerm === 0;
+    const base = slicePerm * N_PERM8;
+    if (Math.max(t.cornerPrune[base + corner], t.udEdgePrune[base + udEdge]) > depth) return false;
+    for (const m of PHASE2_MOVES) {
+      const face = Math.floor(m / 3);
+      if (isRedundant(face, lastFace)) continue;
+      phase2.push(m);
+      if (searchPhase2(
+        t.cornerMove[corner * N_MOVES + m],
+        t.udEdgeMove[udEdge * N_MOVES + m],
+        t.slicePermMove[slicePerm * N_MOVES + m],
+        depth - 1,
+        face
+      )) return true;
+      phase2.pop();
+    }
+    return false;
+  };
+
+  const startPhase2 = () => {
+    const maxDepth = Math.min((best ? best.length : 31) - 1 - phase1.length, 18);
+    if (maxDepth < 0) return;
+    const c = phase1.reduce((acc, m) => multiply(acc, t.moveCubes[m]), cube);
+    const corner = getCornerPerm(c);
+    const udEdge = getUDEdgePerm(c);
+    const slicePerm = getSlicePerm(c);
+    const lastFace = phase1.length ? Math.floor(phase1[phase1.length - 1] / 3) : -1;
+    for (let depth = 0; depth <= maxDepth; depth++) {
+      phase2.length = 0;
+      if (searchPhase2(corner, udEdge, slicePerm, depth, lastFace)) {
+        best = [...phase1, ...phase2];
+        return;
+      }
+    }
+  };
+
+  const isDone = () => !!best && (best.length <= targetLength || nodes > nodeLimit || Date.now() > deadline);
+
+  const searchPhase1 = (twist: number, flip: number, slice: number, depth: number, lastFace: number) => {
+    nodes++;
+    if (depth === 0) {
+      if (twist === 0 && flip === 0 && slice === 0) {
+        // A phase 1 ending in a phase 2 move would just be a shorter phase 1
+        const last = phase1[phase1.length - 1];
+        if (last === undefined || !PHASE2_MOVES.includes(last)) startPhase2();
+      }
+      return;
+    }
+    if (Math.max(t.twistPrune[slice * N_TWIST + twist], t.flipPrune[slice * N_FLIP + flip]) > depth) return;
+    for (let m = 0; m < N_MOVES; m++) {
+      const face = Math.floor(m / 3);
+      if (isRedundant(face, lastFace)) continue;
+      phase1.push(m);
+      searchPhase1(
+        t.twistMove[twist * N_MOVES + m],
+        t.flipMove[flip * N_MOVES + m],
+        t.sliceMove[slice * N_MOVES + m],
+        depth - 1,
+        face
+      );
+      phase1.pop();
+      if (isDone()) return;
+    }
+  };
+
+  const twist = getTwist(cube);
+  const flip = getFlip(cube);
+  const slice = getSlice(cube);
+  for (let depth = 0; depth <= 20 && !isDone(); depth++) {
+    if (best && depth >= (best as number[]).length) break;
+    searchPhase1(twist, flip, slice, depth, -1);
+  }
+  if (!best) throw new Error('No solution found');
+  return best;
+};
+
+// Turns a two-phase solution into renderer moves on the outer layers of a
+// cube of the given size
+export const twoPhaseToMoves = (solution: number[], size: number): Move[] =>
+  solution.map(m => {
+    const face: Face = FACES[Math.floor(m / 3)];
+    const power = (m % 3) + 1;
+    if (power === 2) return { ...faceToMove(face, size), amount: 2 };
+    return faceToMove(face, size, power === 3);
+  });
+
+// Solves a 3x3 CubeState and returns renderer moves
+export const solve3x3 = (state: CubeState, options?: TwoPhaseOptions): Move[] =>
+  twoPhaseToMoves(solveTwoPhase(toCubieCube(state), options), 3);
+
+// --- Scrambles ---
+
+const shuffled = (n: number, random: () => number) => {
+  const p = Array.from({ length: n }, (_, i) => i);
+  for (let i = n - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1);
+    [p[i], p[j]] = [p[j], p[i]];
+  }
+  return p;
+};
+
+// Uniformly random solvable cube: permutations of matching parity, and
+// orientations where the last piece makes the total twist and flip add up
+export const randomCubieCube = (random: () => number): CubieCube => {
+  const cp = shuffled(8, random);
+  const ep = shuffled(12, random);
+  if (permutationParity(cp) !== permutationParity(ep)) [ep[0], ep[1]] = [ep[1], ep[0]];
+  const co = Array.from({ length: 7 }, () => randomInt(random, 3));
+  co.push((3 - co.reduce((sum, o) => sum + o, 0) % 3) % 3);
+  const eo = Array.from({ length: 11 }, () => randomInt(random, 2));
+  eo.push(eo.reduce((sum, o) => sum + o, 0) % 2);
+  return { cp, co, ep, eo };
+};
+
+// Random-state scramble: the inverse of a solution to a uniformly random
+// state. The search is bounded by nodes rather than time so the result is a
+// function of the random source alone; the budget almost always reaches 21
+// moves and otherwise settles for 22 or so.
+const SCRAMBLE_NODE_LIMIT = 10_000_000;
+
+export const scramble3x3 = (random: () => number): Move[] =>
+  invertMoves(twoPhaseToMoves(solveTwoPhase(randomCubieCube(random), { timeoutMs: Infinity, nodeLimit: SCRAMBLE_NODE_LIMIT }), 3));
@@ -0,0 +1,151 @@
+import { CubeFinish, CubeTheme, StickerFinish, ThemeColor } from '../types';
+import { BEVEL_RANGE, DEFAULT_FINISH, PRESET_THEMES, STICKER_SIZE_RANGE } from '../constants';
+import { isRecord } from './guards';
+
+// Custom themes. They are saved by name in localStorage next to the presets
+// and travel between people as JSON files holding a single CubeTheme.
+
+const STORAGE_KEY = 'hypercube-custom-themes';
+
+export const THEME_KEYS: ThemeColor[] = ['U', 'D', 'L', 'R', 'F', 'B', 'core'];
+
+export const THEME_KEY_LABELS: Record<ThemeColor, string> = {
+  U: 'Up', D: 'Down', L: 'Left', R: 'Right', F: 'Front', B: 'Back', core: 'Core',
+};
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export const STICKER_FINISHES: StickerFinish[] = ['matte', 'glossy', 'metallic'];
+
+const inRange = (value: unknown, range: { min: number; max: number }): value is number =>
+  typeof value === 'number' && value >= range.min && value <= range.max;
+
+const isFinish = (f: unknown): f is CubeFinish =>
+  isRecord(f) && typeof f.stickerless === 'boolean' && STICKER_FINISHES.includes(f.surface as StickerFinish) &&
+  inRange(f.bevel, BEVEL_RANGE) && inRange(f.stickerSize, STICKER_SIZE_RANGE);
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && HEX_COLOR.test(value);
+
+export const isTheme = (t: unknown): t is CubeTheme =>
+  isRecord(t) && THEME_KEYS.every(key => isHexColor(t[key])) && (t.finish === undefined || isFinish(t.finish));
+
+export const themeFinish = (theme: CubeTheme): CubeFinish => theme.finish ?? DEFAULT_FINISH;
+
+// "#F80" -> "#ff8800", the form colour inputs expect
+export const normalizeHex = (color: string) => {
+  const digits = color.slice(1).toLowerCase();
+  return `#${digits.length === 3 ? [...digits].map(d => d + d).join('') : digits}`;
+};
+
+export const loadCustomThemes = (): Record<string, CubeTheme> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    if (!isRecord(parsed)) return {};
+    return Object.fromEntries(Object.entries(parsed).filter(([, theme]) => isTheme(theme))) as Record<string, CubeTheme>;
+  } catch (e) {
+    console.warn('Could not read custom themes', e);
+    return {};
+  }
+};
+
+export const saveCustomThemes = (themes: Record<string, CubeTheme>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(themes));
+  } catch (e) {
+    console.warn('Could not store custom themes', e);
+  }
+};
+
+// Why a name cannot be used for a custom theme, or null when it can
+export const themeNameError = (name: string): string | null => {
+  if (!name.trim()) return 'Give the theme a name';
+  if (PRESET_THEMES[name.trim()]) return `"${name.trim()}" is a preset theme`;
+  return null;
+};
+
+export const themeToJson = (theme: CubeTheme) =>
+  JSON.stringify({ ...Object.fromEntries(THEME_KEYS.map(key => [key, theme[key]])), finish: themeFinish(theme) }, null, 2);
+
+const finishFromObject = (finish: unknown): CubeFinish => {
+  if (!isRecord(finish)) throw new Error('"finish" must be an object');
+  if (typeof finish.stickerless !== 'boolean') throw new Error('"finish.stickerless" must be true or false');
+  if (!STICKER_FINISHES.includes(finish.surface as StickerFinish)) {
+    throw new Error(`"finish.surface" must be one of ${STICKER_FINISHES.join(', ')}`);
+  }
+  if (!inRange(finish.bevel, BEVEL_RANGE)) {
+    throw new Error(`"finish.bevel" must be a number from ${BEVEL_RANGE.min} to ${BEVEL_RANGE.max}`);
+  }
+  if (!inRange(finish.stickerSize, STICKER_SIZE_RANGE)) {
+    throw new Error(`"finish.stickerSize" must be a number from ${STICKER_SIZE_RANGE.min} to ${STICKER_SIZE_RANGE.max}`);
+  }
+  return {
+    stickerless: finish.stickerless,
+    surface: finish.surface as StickerFinish,
+    bevel: finish.bevel,
+    stickerSize: finish.stickerSize,
+  };
+};
+
+// Checks and normalises a theme from outside the app (an imported file, a
+// theme generator), throwing with a message fit to show the user
+export const themeFromObject = (parsed: unknown): CubeTheme => {
+  if (!isRecord(parsed)) throw new Error('This is not a theme');
+  const colors = THEME_KEYS.map(key => {
+    const value = parsed[key];
+    if (value === undefined) throw new Error(`The theme has no "${key}" colour`);
+    if (!isHexColor(value)) {
+      throw new Error(`"${key}" must be a hex colour like #ff5800, got ${JSON.stringify(value)}`);
+    }
+    return [key, normalizeHex(value)];
+  });
+  const theme = Object.fromEntries(colors) as unknown as CubeTheme;
+  if (parsed.finish !== undefined) theme.finish = finishFromObject(parsed.finish);
+  return theme;
+};
+
+export const parseThemeJson = (text: string): CubeTheme => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  return themeFromObject(parsed);
+};
+
+// --- Contrast ---
+
+// CIE L*a*b* of a hex colour, where distances roughly match what people see
+const toLab = (hex: string): [number, number, number] => {
+  const [r, g, b] = [1, 3, 5].map(i => {
+    const c = parseInt(normalizeHex(hex).slice(i, i + 2), 16) / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const x = f((0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047);
+  const y = f(0.2126 * r + 0.7152 * g + 0.0722 * b);
+  const z = f((0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883);
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+};
+
+// Colour difference (CIE76 delta E); about 2.3 is just noticeable
+export const colorDifference = (a: string, b: string) => {
+  const [la, aa, ba] = toLab(a);
+  const [lb, ab, bb] = toLab(b);
+  return Math.hypot(la - lb, aa - ab, ba - bb);
+};
+
+// Faces closer than this are too easy to mix up mid-solve
+export const MIN_FACE_DIFFERENCE = 10;
+
+// The first pair of faces whose colours are too close to tell apart, or null
+export const findSimilarFaces = (theme: CubeTheme): [ThemeColor, ThemeColor] | null => {
+  const faces = THEME_KEYS.filter(key => key !== 'core');
+  for (let i = 0; i < faces.length; i++) {
+    for (let j = i + 1; j < faces.length; j++) {
+      if (colorDifference(theme[faces[i]], theme[faces[j]]) < MIN_FACE_DIFFERENCE) return [faces[i], faces[j]];
+    }
+  }
+  return null;
+};
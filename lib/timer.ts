@@ -0,0 +1,135 @@
+import { Penalty, TimedSolve, TimerSession } from '../types';
+import { Shape, isCuboid, toDims } from './cubeState';
+import { isRecord } from './guards';
+
+// Speedcubing timer: WCA inspection rules, session storage and statistics.
+
+const STORAGE_KEY = 'hypercube-timer-sessions';
+
+export const INSPECTION_MS = 15000;
+// WCA A3: starting after 15 s costs +2, after 17 s the solve is a DNF
+const INSPECTION_DNF_MS = 17000;
+
+export const inspectionPenalty = (elapsedMs: number): Penalty =>
+  elapsedMs > INSPECTION_DNF_MS ? 'DNF' : elapsedMs > INSPECTION_MS ? '+2' : 'none';
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createTimerSession = (name: string): TimerSession => ({
+  id: createId(),
+  name,
+  solves: [],
+  createdAt: Date.now(),
+});
+
+export const createTimedSolve = (shape: Shape, timeMs: number, penalty: Penalty): TimedSolve => ({
+  id: createId(),
+  size: Math.max(...toDims(shape)),
+  ...(isCuboid(shape) && { dims: toDims(shape) }),
+  timeMs,
+  penalty,
+  solvedAt: Date.now(),
+});
+
+const PENALTIES: Penalty[] = ['none', '+2', 'DNF'];
+
+const isTimedSolve = (s: unknown): s is TimedSolve =>
+  isRecord(s) && typeof s.id === 'string' && Number.isInteger(s.size) &&
+  (s.dims === undefined || (Array.isArray(s.dims) && s.dims.length === 3 && s.dims.every(n => Number.isInteger(n)))) &&
+  typeof s.timeMs === 'number' && s.timeMs >= 0 && PENALTIES.includes(s.penalty as Penalty) &&
+  typeof s.solvedAt === 'number';
+
+// Sessions with a broken header are dropped, broken solves within a session
+// are skipped
+const toTimerSession = (s: unknown): TimerSession | null => {
+  if (!isRecord(s) || typeof s.id !== 'string' || typeof s.name !== 'string' ||
+    typeof s.createdAt !== 'number' || !Array.isArray(s.solves)) return null;
+  return { id: s.id, name: s.name, solves: s.solves.filter(isTimedSolve), createdAt: s.createdAt };
+};
+
+export const loadTimerSessions = (): TimerSession[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    const sessions = Array.isArray(parsed) ? parsed.map(toTimerSession).filter((s): s is TimerSession => s !== null) : [];
+    if (sessions.length > 0) return sessions;
+  } catch (e) {
+    console.warn('Could not read timer sessions', e);
+  }
+  return [createTimerSession('Session 1')];
+};
+
+export const saveTimerSessions = (sessions: TimerSession[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch (e) {
+    console.warn('Could not store timer sessions', e);
+  }
+};
+
+// --- Statistics ---
+
+// Time with the penalty applied; null is a DNF
+export const effectiveTime = (solve: TimedSolve): number | null => {
+  if (solve.penalty === 'DNF') return null;
+  return solve.timeMs + (solve.penalty === '+2' ? 2000 : 0);
+};
+
+// Mean of the last `count` solves ending at `end`; any DNF makes it a DNF
+const meanOf = (solves: TimedSolve[], count: number, end: number): number | null => {
+  const times = solves.slice(end - count, end).map(effectiveTime);
+  if (times.some(t => t === null)) return null;
+  return (times as number[]).reduce((sum, t) => sum + t, 0) / count;
+};
+
+// WCA-style average: the best and worst 5% (at least one each) are dropped
+// and a DNF counts as the worst time, so the average only becomes a DNF
+// when there are more DNFs than trimmed solves
+const averageOf = (solves: TimedSolve[], count: number, end: number): number | null => {
+  const trim = Math.ceil(count * 0.05);
+  const times = solves.slice(end - count, end)
+    .map(s => effectiveTime(s) ?? Infinity)
+    .sort((a, b) => a - b)
+    .slice(trim, count - trim);
+  if (times[times.length - 1] === Infinity) return null;
+  return times.reduce((sum, t) => sum + t, 0) / times.length;
+};
+
+export interface StatLine {
+  label: string;
+  current: number | null; // null is a DNF
+  best: number | null;
+}
+
+const STATS: { label: string; count: number; compute: typeof meanOf }[] = [
+  { label: 'single', count: 1, compute: meanOf },
+  { label: 'mo3', count: 3, compute: meanOf },
+  { label: 'ao5', count: 5, compute: averageOf },
+  { label: 'ao12', count: 12, compute: averageOf },
+  { label: 'ao100', count: 100, compute: averageOf },
+];
+
+// Current and best value of every statistic the session has enough solves for
+export const sessionStats = (solves: TimedSolve[]): StatLine[] =>
+  STATS.filter(stat => solves.length >= stat.count).map(({ label, count, compute }) => {
+    let best: number | null = null;
+    for (let end = count; end <= solves.length; end++) {
+      const value = compute(solves, count, end);
+      if (value !== null && (best === null || value < best)) best = value;
+    }
+    return { label, current: compute(solves, count, solves.length), best };
+  });
+
+export const formatTime = (ms: number | null): string => {
+  if (ms === null) return 'DNF';
+  // Rounded to hundredths first, so 59.999 s shows as 1:00.00
+  const centiseconds = Math.round(ms / 10);
+  const minutes = Math.floor(centiseconds / 6000);
+  const seconds = ((centiseconds % 6000) / 100).toFixed(2);
+  return minutes > 0 ? `${minutes}:${seconds.padStart(5, '0')}` : seconds;
+};
+
+export const formatSolve = (solve: TimedSolve): string => {
+  if (solve.penalty === 'DNF') return `DNF(${formatTime(solve.timeMs)})`;
+  return `${formatTime(effectiveTime(solve))}${solve.penalty === '+2' ? '+' : ''}`;
+};
@@ -1,44 +1,49 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { CubeTheme } from "../types";
+import type { ThemeProvider } from './themeGenerator';
 
-// We use a simpler schema for the color palette
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Theme generation with Gemini. The SDK is loaded on the first request so it
+// stays out of the main bundle, and failures are reported rather than
+// replaced with a made-up palette.
 
-export const generateCubeTheme = async (prompt: string): Promise<CubeTheme> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Generate a creative color palette for a Rubik's Cube based on this theme: "${prompt}". 
-      Return 6 hex codes for the faces (Up, Down, Left, Right, Front, Back) and 1 hex code for the core/frame.
-      Ensure high contrast and vibrant colors.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            U: { type: Type.STRING, description: "Hex color for Up face" },
-            D: { type: Type.STRING, description: "Hex color for Down face" },
-            L: { type: Type.STRING, description: "Hex color for Left face" },
-            R: { type: Type.STRING, description: "Hex color for Right face" },
-            F: { type: Type.STRING, description: "Hex color for Front face" },
-            B: { type: Type.STRING, description: "Hex color for Back face" },
-            core: { type: Type.STRING, description: "Hex color for the cube gaps/core" },
+const MODEL = 'gemini-2.5-flash';
+
+export const createGeminiThemeProvider = (apiKey: string): ThemeProvider => ({
+  label: 'Gemini',
+  generate: async (prompt) => {
+    const { GoogleGenAI, Type } = await import('@google/genai');
+    const ai = new GoogleGenAI({ apiKey });
+    let text: string | undefined;
+    try {
+      const response = await ai.models.generateContent({
+        model: MODEL,
+        contents: `Generate a creative color palette for a Rubik's Cube based on this theme: ${JSON.stringify(prompt)}.
+        Return 6 hex codes for the faces (Up, Down, Left, Right, Front, Back) and 1 hex code for the core/frame.
+        Every face must be easy to tell apart from the others; use vibrant, high-contrast colors.`,
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              U: { type: Type.STRING, description: 'Hex color for Up face' },
+              D: { type: Type.STRING, description: 'Hex color for Down face' },
+              L: { type: Type.STRING, description: 'Hex color for Left face' },
+              R: { type: Type.STRING, description: 'Hex color for Right face' },
+              F: { type: Type.STRING, description: 'Hex color for Front face' },
+              B: { type: Type.STRING, description: 'Hex color for Back face' },
+              core: { type: Type.STRING, description: 'Hex color for the cube gaps/core' },
+            },
+            required: ['U', 'D', 'L', 'R', 'F', 'B', 'core'],
           },
-          required: ["U", "D", "L", "R", "F", "B", "core"],
         },
-      },
-    });
-
-    if (response.text) {
-      const theme = JSON.parse(response.text) as CubeTheme;
-      return theme;
+      });
+      text = response.text;
+    } catch (e) {
+      throw new Error(`Gemini could not be reached: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (!text) throw new Error('Gemini returned no palette');
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error('Gemini returned a palette that is not valid JSON');
     }
-    throw new Error("No response from AI");
-  } catch (error) {
-    console.error("Gemini Theme Error:", error);
-    // Fallback random theme if error
-    return {
-      U: '#f0f', D: '#0ff', L: '#ff0', R: '#00f', F: '#0f0', B: '#f00', core: '#000'
-    };
-  }
-};
+  },
+});
@@ -0,0 +1,38 @@
+import { createRandom } from '../lib/random';
+import type { ThemeProvider } from './themeGenerator';
+
+// Offline stand-in for the theme generator: the same prompt always gives the
+// same palette, six hues spread round the colour wheel on a dark core.
+
+// FNV-1a, to seed the palette from the prompt
+const hashPrompt = (prompt: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < prompt.length; i++) {
+    hash = Math.imul(hash ^ prompt.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const hslToHex = (h: number, s: number, l: number) => {
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const c = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(c * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
+
+export const createLocalThemeProvider = (): ThemeProvider => ({
+  label: 'Offline palette',
+  generate: async (prompt) => {
+    const random = createRandom(hashPrompt(prompt.toLowerCase()));
+    const baseHue = random() * 360;
+    const faces = ['U', 'R', 'F', 'D', 'L', 'B'].map((face, i) => [
+      face,
+      // Alternate light and dark so neighbouring hues stay apart
+      hslToHex((baseHue + i * 60 + random() * 20) % 360, 0.65 + random() * 0.3, i % 2 ? 0.38 + random() * 0.1 : 0.6 + random() * 0.1),
+    ]);
+    return { ...Object.fromEntries(faces), core: hslToHex(baseHue, 0.3, 0.08) };
+  },
+});
@@ -0,0 +1,37 @@
+import { CubeTheme } from '../types';
+import { findSimilarFaces, themeFromObject, THEME_KEY_LABELS } from '../lib/themes';
+import { createGeminiThemeProvider } from './geminiService';
+import { createLocalThemeProvider } from './localThemeProvider';
+
+// Turns a description into a cube theme. Where the colours come from is a
+// ThemeProvider, so the Gemini service can be swapped for the offline
+// stand-in; whatever a provider returns is validated here before use.
+
+export interface ThemeProvider {
+  label: string; // shown next to the prompt
+  // The palette as the provider produced it, checked by generateTheme
+  generate: (prompt: string) => Promise<unknown>;
+}
+
+export const MAX_PROMPT_LENGTH = 200;
+
+// Gemini when a key is configured, unless THEME_PROVIDER=local asks for the
+// offline generator (development and tests)
+export const getThemeProvider = (): ThemeProvider =>
+  process.env.THEME_PROVIDER === 'local' || !process.env.API_KEY
+    ? createLocalThemeProvider()
+    : createGeminiThemeProvider(process.env.API_KEY);
+
+export const generateTheme = async (prompt: string, provider: ThemeProvider): Promise<CubeTheme> => {
+  const description = prompt.trim();
+  if (!description) throw new Error('Describe the theme first');
+  if (description.length > MAX_PROMPT_LENGTH) {
+    throw new Error(`Keep the description under ${MAX_PROMPT_LENGTH} characters`);
+  }
+  const theme = themeFromObject(await provider.generate(description));
+  const similar = findSimilarFaces(theme);
+  if (similar) {
+    throw new Error(`The generated ${THEME_KEY_LABELS[similar[0]]} and ${THEME_KEY_LABELS[similar[1]]} faces are too alike to tell apart; try again or reword the description`);
+  }
+  return theme;
+};
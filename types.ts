@@ -1,9 +1,13 @@
 export type Axis = 'x' | 'y' | 'z';
 
+// A turn of one layer or a block of adjacent layers. Wide turns and slices
+// set toLayer, a block spanning the whole cube is a rotation of the puzzle.
 export interface Move {
   axis: Axis;
-  layer: number; // 0 to 9
+  layer: number; // first layer of the block, 0 to size - 1
+  toLayer?: number; // last layer of the block, inclusive; defaults to layer
   direction: 1 | -1; // 1 = clockwise, -1 = counter-clockwise
+  amount?: 1 | 2; // quarter turns; defaults to 1
 }
 
 export interface CubeTheme {
@@ -14,6 +18,19 @@ export interface CubeTheme {
   F: string; // Front
   B: string; // Back
   core: string; // Inner color
+  finish?: CubeFinish; // DEFAULT_FINISH when left out
+}
+
+export type ThemeColor = Exclude<keyof CubeTheme, 'finish'>;
+
+export type StickerFinish = 'matte' | 'glossy' | 'metallic';
+
+// How the cube is built and surfaced, chosen per theme
+export interface CubeFinish {
+  stickerless: boolean; // coloured plastic bodies instead of stickers
+  surface: StickerFinish; // of the stickers, or of the bodies when stickerless
+  bevel: number; // radius of the rounded cubie edges, as a fraction of a cubie
+  stickerSize: number; // sticker width as a fraction of a cubie
 }
 
 export interface CubieData {
@@ -25,3 +42,30 @@ export interface CubieData {
   // but for a simple visual simulation, we can just use current coordinates to determine face colors if we don't need to track stickers per piece perfectly in the data model for a specific solver algorithm.
   // However, to preserve colors during rotation, we need to track orientation or current position.
 }
+
+export interface SolveRecord {
+  size: number; // the largest dimension for cuboids
+  dims?: [number, number, number]; // only set for cuboids
+  moves: number; // manual turns made during the attempt
+  durationMs: number | null; // from first manual turn to solved, null if never touched
+  assisted: boolean; // solve button or hints were used
+  solvedAt: number;
+}
+
+export type Penalty = 'none' | '+2' | 'DNF';
+
+export interface TimedSolve {
+  id: string;
+  size: number; // the largest dimension for cuboids
+  dims?: [number, number, number]; // only set for cuboids
+  timeMs: number; // raw time from first turn to solved, before penalties
+  penalty: Penalty;
+  solvedAt: number;
+}
+
+export interface TimerSession {
+  id: string;
+  name: string;
+  solves: TimedSolve[];
+  createdAt: number;
+}